@@ -4,47 +4,288 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  Resource,
+  ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 import { config } from 'dotenv';
 import { createQdrantService } from './services/qdrant.js';
-import { createEmbeddingService, createAndInitializeEmbeddingService } from './services/embeddings/index.js';
+import {
+  createEmbeddingService,
+  createAndInitializeEmbeddingService,
+  CachedEmbeddingService,
+  EmbeddingCache,
+} from './services/embeddings/index.js';
 import { TextProcessor } from './services/text-processing.js';
+import { createReranker } from './services/rerankers/index.js';
+import {
+  CHUNK_UNITS,
+  CHUNKING_STRATEGIES,
+  ChunkingProfileRegistry,
+  ChunkingStrategy,
+  ChunkUnit,
+  createLengthFunction,
+} from './services/chunking.js';
 import { VectorValidationService } from './services/validation.js';
-import { v4 as uuidv4 } from 'uuid';
-import { readFileSync } from 'fs';
+import { Bm25Encoder, SPARSE_VECTOR_NAME } from './services/sparse.js';
+import { OperationCancelledError, ProgressReporter } from './services/progress.js';
+import {
+  CollectionMetadataStore,
+  defaultVectorName,
+  METADATA_COLLECTION,
+  vectorModel,
+} from './services/collection-metadata.js';
+import {
+  CollectionDetails,
+  CollectionOptions,
+  EmbeddingGenerator,
+  EmbeddingServiceConfig,
+  FacetHit,
+  PointId,
+  QdrantFilter,
+  Reranker,
+  SearchMode,
+  SearchResult,
+  ServerConfig,
+} from './types.js';
+import { existsSync, readFileSync } from 'fs';
+import { discoverFiles, isBinaryFile } from './services/file-discovery.js';
+import { createCollectionWithMetadata, IncrementalIndexer } from './services/indexing.js';
+import { CollectionReindexer, DEFAULT_REINDEX_BATCH_SIZE } from './services/reindexing.js';
+import { MCP_PATH, McpHttpServer, resolveTransportOptions, SSE_PATH } from './services/transport.js';
+import { loadServerConfig, parseCommandLine } from './services/config.js';
+import {
+  CollectionTransfer,
+  DEFAULT_TRANSFER_BATCH_SIZE,
+  readExportHeader,
+} from './services/collection-transfer.js';
+import { MAX_CONTEXT_WINDOW, SourceDocumentReader } from './services/documents.js';
+import {
+  renderSearchOutput,
+  SEARCH_OUTPUT_FORMATS,
+  SEARCH_OUTPUT_SCHEMA,
+  SearchOutputFormat,
+  toSearchOutput,
+} from './services/search-output.js';
+import {
+  collectionUri,
+  parseResourceUri,
+  RESOURCE_TEMPLATES,
+  sourceUri,
+} from './services/resources.js';
+import {
+  COMMON_PROMPT_ARGUMENTS,
+  DEFAULT_PROMPT_LIMIT,
+  formatPassages,
+  PromptRegistry,
+  PromptTemplate,
+  renderTemplate,
+  splitSources,
+} from './services/prompts.js';
+import { DOCUMENT_FORMATS, getDocumentLoader } from './services/loaders/index.js';
+import {
+  CANDIDATE_FACTOR,
+  collapseAdjacentChunks,
+  DEFAULT_MMR_LAMBDA,
+  maximalMarginalRelevance,
+} from './services/diversity.js';
+import {
+  SEARCH_FILTER_SCHEMA,
+  SearchFilter,
+  SearchFilterBuilder,
+  validateSearchFilter,
+} from './services/filters.js';
+import {
+  COLLECTION_OPTIONS_SCHEMA,
+  pickCollectionOptions,
+  validateCollectionOptions,
+} from './services/collection-options.js';
 
 // Load environment variables
 config();
 
-interface AddDocumentsArgs {
+// Source files listed per page by get_collection_info
+const DEFAULT_SOURCES_PAGE_SIZE = 50;
+// Most distinct sources counted by get_collection_info
+const MAX_FACET_SOURCES = 10000;
+// Resources returned per resources/list page
+const RESOURCES_PAGE_SIZE = 100;
+
+// Collection settings accepted by the tools that create collections
+type CollectionSettingsArgs = Omit<CollectionOptions, 'sparse'>;
+
+// Named dense vector filled by an embedding service
+interface VectorArg {
+  name: string;
+  embeddingService: string;
+  model?: string;
+}
+
+const VECTORS_SCHEMA = {
+  type: 'array',
+  description: 'Named vectors, each filled by its own embedding service, e.g. to compare or combine models over the same chunks. ' +
+    'Defines the vectors of a new collection; collections with named vectors always get all of them (optional, default: one unnamed vector)',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Vector name' },
+      embeddingService: { type: 'string', description: 'Embedding profile, or a provider: openai, openrouter, fastembed or ollama' },
+      model: { type: 'string', description: 'Model overriding <SERVICE>_MODEL (optional)' },
+    },
+    required: ['name', 'embeddingService'],
+  },
+};
+
+interface AddDocumentsArgs extends CollectionSettingsArgs {
   filePath: string;
   collection: string;
-  embeddingService: 'openai' | 'openrouter' | 'fastembed' | 'ollama';
+  embeddingService?: string;
+  vectors?: VectorArg[];
+  chunkingProfile?: string;
+  chunkStrategy?: ChunkingStrategy;
+  chunkUnit?: ChunkUnit;
   chunkSize?: number;
   chunkOverlap?: number;
+  separators?: string[];
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+  hybrid?: boolean;
+  format?: string;
+  textFields?: string[];
+  payloadFields?: string[];
+}
+
+interface ToolCallContext {
+  signal?: AbortSignal;
+  progressToken?: ProgressToken;
+  // Sends a notification to the client of the call's session
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+}
+
+interface FileIngestionResult {
+  path: string;
+  status: 'added' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+  chunks: number;
+  embedded?: number;
+  removed?: number;
+  message?: string;
 }
 
 interface SearchArgs {
   query: string;
   collection: string;
-  embeddingService: 'openai' | 'openrouter' | 'fastembed' | 'ollama';
+  embeddingService?: string;
+  vector?: string;
   limit?: number;
+  filter?: SearchFilter;
+  mode?: SearchMode;
+  diversity?: boolean;
+  mmrLambda?: number;
+  collapseAdjacent?: boolean;
+  rerank?: boolean;
+  rerankCandidates?: number;
+  contextWindow?: number;
+  outputFormat?: SearchOutputFormat;
+  includePayload?: boolean;
+}
+
+interface CreateCollectionArgs extends CollectionSettingsArgs {
+  collection: string;
+  embeddingService?: string;
+  vectors?: VectorArg[];
+  hybrid?: boolean;
+}
+
+interface ReindexCollectionArgs extends CollectionSettingsArgs {
+  collection: string;
+  targetCollection: string;
+  embeddingService?: string;
+  vectors?: VectorArg[];
+  hybrid?: boolean;
+  batchSize?: number;
+  swapAlias?: boolean;
+  // Swap even when points without text were skipped, which deletes them with the source collection
+  forceSwap?: boolean;
+}
+
+interface ExportCollectionArgs {
+  collection: string;
+  filePath: string;
+  batchSize?: number;
+  overwrite?: boolean;
+}
+
+interface ImportCollectionArgs {
+  filePath: string;
+  collection?: string;
+  batchSize?: number;
 }
 
 interface DeleteCollectionArgs {
   collection: string;
 }
 
+interface GetCollectionInfoArgs {
+  collection: string;
+  sourcesOffset?: number;
+  sourcesLimit?: number;
+}
+
+interface DeleteDocumentsArgs {
+  collection: string;
+  ids?: PointId[];
+  source?: string | string[];
+  filter?: SearchFilter;
+  dryRun?: boolean;
+}
+
 class BetterQdrantServer {
-  private server: Server;
   private qdrantService;
-  private textProcessor;
+  private chunkingProfiles;
   private validationService;
+  private metadataStore;
+  private indexer;
+  private reindexer;
+  private transfer;
+  private filterBuilder;
+  private sparseEncoder;
+  private documentReader;
+  private prompts;
+  private embeddingCache;
+  // Created on first use, as a local reranker loads its model once
+  private reranker?: Reranker;
+
+  constructor(private config: ServerConfig) {
+    // Initialize services, shared by every session
+    this.qdrantService = createQdrantService(config.qdrant.url, config.qdrant.apiKey);
+    this.chunkingProfiles = new ChunkingProfileRegistry(config.chunking.profiles, config.chunking.defaultProfile);
+    this.metadataStore = new CollectionMetadataStore(this.qdrantService);
+    this.validationService = new VectorValidationService(this.qdrantService, this.metadataStore);
+    this.indexer = new IncrementalIndexer(this.qdrantService, this.validationService, this.metadataStore);
+    this.reindexer = new CollectionReindexer(this.qdrantService, this.validationService, this.metadataStore);
+    this.transfer = new CollectionTransfer(this.qdrantService, this.validationService, this.metadataStore);
+    this.filterBuilder = new SearchFilterBuilder(this.qdrantService);
+    this.sparseEncoder = new Bm25Encoder();
+    this.documentReader = new SourceDocumentReader(this.qdrantService);
+    this.prompts = PromptRegistry.fromDirectory(config.prompts.directory);
+    const { enabled, ...cacheOptions } = config.embedding.cache;
+    this.embeddingCache = enabled ? new EmbeddingCache(cacheOptions) : undefined;
+  }
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * Creates an MCP server answering with the shared services. Each client session
+   * gets its own server, as a server holds the protocol state of one connection.
+   */
+  private createSession(): Server {
+    const server = new Server(
       {
         name: 'better-qdrant',
         version: '0.1.1',
@@ -52,26 +293,19 @@ class BetterQdrantServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    // Initialize services
-    this.qdrantService = createQdrantService(
-      process.env.QDRANT_URL || 'http://localhost:6333',
-      process.env.QDRANT_API_KEY
-    );
-    this.textProcessor = new TextProcessor();
-    this.validationService = new VectorValidationService(this.qdrantService);
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
 
-    this.setupToolHandlers();
-    
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    return server;
   }
 
   private isAddDocumentsArgs(args: unknown): args is AddDocumentsArgs {
@@ -80,22 +314,107 @@ class BetterQdrantServer {
     return (
       typeof a.filePath === 'string' &&
       typeof a.collection === 'string' &&
-      typeof a.embeddingService === 'string' &&
-      ['openai', 'openrouter', 'fastembed', 'ollama'].includes(a.embeddingService) &&
+      (a.embeddingService === undefined || typeof a.embeddingService === 'string') &&
+      (a.vectors === undefined || this.isVectorArgs(a.vectors)) &&
+      (a.chunkingProfile === undefined || typeof a.chunkingProfile === 'string') &&
+      (a.chunkStrategy === undefined || CHUNKING_STRATEGIES.includes(a.chunkStrategy as ChunkingStrategy)) &&
+      (a.chunkUnit === undefined || CHUNK_UNITS.includes(a.chunkUnit as ChunkUnit)) &&
       (a.chunkSize === undefined || typeof a.chunkSize === 'number') &&
-      (a.chunkOverlap === undefined || typeof a.chunkOverlap === 'number')
+      (a.chunkOverlap === undefined || typeof a.chunkOverlap === 'number') &&
+      (a.separators === undefined || this.isStringArray(a.separators)) &&
+      (a.include === undefined || this.isStringArray(a.include)) &&
+      (a.exclude === undefined || this.isStringArray(a.exclude)) &&
+      (a.respectGitignore === undefined || typeof a.respectGitignore === 'boolean') &&
+      (a.hybrid === undefined || typeof a.hybrid === 'boolean') &&
+      (a.format === undefined || typeof a.format === 'string') &&
+      (a.textFields === undefined || this.isStringArray(a.textFields)) &&
+      (a.payloadFields === undefined || this.isStringArray(a.payloadFields))
     );
   }
 
+  private isVectorArgs(value: unknown): value is VectorArg[] {
+    return Array.isArray(value) && value.every(item => {
+      const v = item as Record<string, unknown> | null;
+      return (
+        !!v &&
+        typeof v.name === 'string' &&
+        typeof v.embeddingService === 'string' &&
+        (v.model === undefined || typeof v.model === 'string')
+      );
+    });
+  }
+
+  private isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+
   private isSearchArgs(args: unknown): args is SearchArgs {
     if (!args || typeof args !== 'object') return false;
     const a = args as Record<string, unknown>;
     return (
       typeof a.query === 'string' &&
       typeof a.collection === 'string' &&
-      typeof a.embeddingService === 'string' &&
-      ['openai', 'openrouter', 'fastembed', 'ollama'].includes(a.embeddingService) &&
-      (a.limit === undefined || typeof a.limit === 'number')
+      (a.embeddingService === undefined || typeof a.embeddingService === 'string') &&
+      (a.vector === undefined || typeof a.vector === 'string') &&
+      (a.limit === undefined || (Number.isInteger(a.limit) && (a.limit as number) > 0)) &&
+      (a.filter === undefined || (typeof a.filter === 'object' && a.filter !== null)) &&
+      (a.mode === undefined || (typeof a.mode === 'string' && ['dense', 'sparse', 'hybrid'].includes(a.mode))) &&
+      (a.diversity === undefined || typeof a.diversity === 'boolean') &&
+      (a.mmrLambda === undefined || (typeof a.mmrLambda === 'number' && a.mmrLambda >= 0 && a.mmrLambda <= 1)) &&
+      (a.collapseAdjacent === undefined || typeof a.collapseAdjacent === 'boolean') &&
+      (a.rerank === undefined || typeof a.rerank === 'boolean') &&
+      (a.rerankCandidates === undefined || (Number.isInteger(a.rerankCandidates) && (a.rerankCandidates as number) > 0)) &&
+      (a.contextWindow === undefined ||
+        (Number.isInteger(a.contextWindow) && (a.contextWindow as number) >= 0 && (a.contextWindow as number) <= MAX_CONTEXT_WINDOW)) &&
+      (a.outputFormat === undefined || SEARCH_OUTPUT_FORMATS.includes(a.outputFormat as SearchOutputFormat)) &&
+      (a.includePayload === undefined || typeof a.includePayload === 'boolean')
+    );
+  }
+
+  private isCreateCollectionArgs(args: unknown): args is CreateCollectionArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.collection === 'string' &&
+      (a.embeddingService === undefined || typeof a.embeddingService === 'string') &&
+      (a.vectors === undefined || this.isVectorArgs(a.vectors)) &&
+      (a.hybrid === undefined || typeof a.hybrid === 'boolean')
+    );
+  }
+
+  private isReindexCollectionArgs(args: unknown): args is ReindexCollectionArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.collection === 'string' &&
+      typeof a.targetCollection === 'string' &&
+      (a.embeddingService === undefined || typeof a.embeddingService === 'string') &&
+      (a.vectors === undefined || this.isVectorArgs(a.vectors)) &&
+      (a.hybrid === undefined || typeof a.hybrid === 'boolean') &&
+      (a.batchSize === undefined || (Number.isInteger(a.batchSize) && (a.batchSize as number) > 0)) &&
+      (a.swapAlias === undefined || typeof a.swapAlias === 'boolean') &&
+      (a.forceSwap === undefined || typeof a.forceSwap === 'boolean')
+    );
+  }
+
+  private isExportCollectionArgs(args: unknown): args is ExportCollectionArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.collection === 'string' &&
+      typeof a.filePath === 'string' &&
+      (a.batchSize === undefined || (Number.isInteger(a.batchSize) && (a.batchSize as number) > 0)) &&
+      (a.overwrite === undefined || typeof a.overwrite === 'boolean')
+    );
+  }
+
+  private isImportCollectionArgs(args: unknown): args is ImportCollectionArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.filePath === 'string' &&
+      (a.collection === undefined || typeof a.collection === 'string') &&
+      (a.batchSize === undefined || (Number.isInteger(a.batchSize) && (a.batchSize as number) > 0))
     );
   }
 
@@ -105,8 +424,31 @@ class BetterQdrantServer {
     return typeof a.collection === 'string';
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  private isGetCollectionInfoArgs(args: unknown): args is GetCollectionInfoArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.collection === 'string' &&
+      (a.sourcesOffset === undefined || (Number.isInteger(a.sourcesOffset) && (a.sourcesOffset as number) >= 0)) &&
+      (a.sourcesLimit === undefined || (Number.isInteger(a.sourcesLimit) && (a.sourcesLimit as number) > 0))
+    );
+  }
+
+  private isDeleteDocumentsArgs(args: unknown): args is DeleteDocumentsArgs {
+    if (!args || typeof args !== 'object') return false;
+    const a = args as Record<string, unknown>;
+    return (
+      typeof a.collection === 'string' &&
+      (a.ids === undefined ||
+        (Array.isArray(a.ids) && a.ids.every(id => typeof id === 'string' || typeof id === 'number'))) &&
+      (a.source === undefined || typeof a.source === 'string' || this.isStringArray(a.source)) &&
+      (a.filter === undefined || (typeof a.filter === 'object' && a.filter !== null)) &&
+      (a.dryRun === undefined || typeof a.dryRun === 'boolean')
+    );
+  }
+
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'list_collections',
@@ -119,13 +461,13 @@ class BetterQdrantServer {
         },
         {
           name: 'add_documents',
-          description: 'Add documents to a Qdrant collection with specified embedding service',
+          description: 'Add documents to a Qdrant collection with specified embedding service. Accepts a single file or a directory, which is walked recursively',
           inputSchema: {
             type: 'object',
             properties: {
               filePath: {
                 type: 'string',
-                description: 'Path to the file to process',
+                description: 'Path to the file or directory to process',
               },
               collection: {
                 type: 'string',
@@ -133,19 +475,139 @@ class BetterQdrantServer {
               },
               embeddingService: {
                 type: 'string',
-                enum: ['openai', 'openrouter', 'fastembed', 'ollama'],
-                description: 'Embedding service to use',
+                description: 'Embedding profile or provider to use (optional, defaults to the one recorded for the collection, then the collection\'s configured profile, then the default profile)',
+              },
+              vectors: VECTORS_SCHEMA,
+              chunkingProfile: {
+                type: 'string',
+                description: 'Named chunking profile from CHUNKING_PROFILES (optional, default: DEFAULT_CHUNKING_PROFILE, then "default"). The options below override its settings',
+              },
+              chunkStrategy: {
+                type: 'string',
+                enum: CHUNKING_STRATEGIES,
+                description: 'auto splits source code along functions and classes and other text by separators; recursive splits all files by separators (optional)',
+              },
+              chunkUnit: {
+                type: 'string',
+                enum: CHUNK_UNITS,
+                description: 'Unit of chunkSize and chunkOverlap; tokens are counted with the tokenizer of the embedding model (optional)',
               },
               chunkSize: {
                 type: 'number',
-                description: 'Size of text chunks (optional)',
+                description: 'Size of text chunks in chunkUnit (optional)',
               },
               chunkOverlap: {
                 type: 'number',
-                description: 'Overlap between chunks (optional)',
+                description: 'Overlap between chunks in chunkUnit (optional)',
+              },
+              separators: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Separators tried in order when splitting text (optional)',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Glob patterns of files to include when filePath is a directory (optional, default: all files)',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Glob patterns of files or directories to exclude when filePath is a directory (optional)',
+              },
+              respectGitignore: {
+                type: 'boolean',
+                description: 'Skip files matched by .gitignore when filePath is a directory (optional, default: true)',
+              },
+              hybrid: {
+                type: 'boolean',
+                description: 'When the collection is created, also store BM25 sparse vectors to enable sparse and hybrid search (optional, default: false)',
+              },
+              format: {
+                type: 'string',
+                description: `Document format or MIME type overriding detection by file extension (optional; one of ${DOCUMENT_FORMATS.join(', ')})`,
+              },
+              textFields: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'For JSON, JSONL and CSV: record fields that make up the indexed text (optional, default: all fields)',
+              },
+              payloadFields: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'For JSON, JSONL and CSV: record fields stored under "fields" in the payload of each chunk, filterable as fields.<field> (optional)',
+              },
+              // Only used when the collection does not exist yet
+              ...COLLECTION_OPTIONS_SCHEMA,
+            },
+            required: ['filePath', 'collection'],
+          },
+        },
+        {
+          name: 'create_collection',
+          description: 'Create an empty collection for an embedding service, with a distance metric and optional index, quantization and storage settings',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to create',
+              },
+              embeddingService: {
+                type: 'string',
+                description: 'Embedding profile or provider that will fill the collection; sets the vector size and is recorded for later calls (optional, default: the collection\'s configured profile, then the default profile)',
+              },
+              vectors: VECTORS_SCHEMA,
+              hybrid: {
+                type: 'boolean',
+                description: 'Also store BM25 sparse vectors to enable sparse and hybrid search (optional, default: false)',
+              },
+              ...COLLECTION_OPTIONS_SCHEMA,
+            },
+            required: ['collection'],
+          },
+        },
+        {
+          name: 'reindex_collection',
+          description: 'Copy a collection into a new one re-embedded with other embedding models, e.g. to migrate to a new model. ' +
+            'Progress is saved after every batch; calling again with the same collections resumes an interrupted reindex',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Collection to reindex; its points keep their ids and payloads',
+              },
+              targetCollection: {
+                type: 'string',
+                description: 'New collection to write the re-embedded points to',
               },
+              embeddingService: {
+                type: 'string',
+                description: 'Embedding profile or provider of the new collection (optional, default: the configured profile of the new collection, then the default profile)',
+              },
+              vectors: VECTORS_SCHEMA,
+              hybrid: {
+                type: 'boolean',
+                description: 'Store BM25 sparse vectors in the new collection (optional, default: same as the source collection)',
+              },
+              batchSize: {
+                type: 'integer',
+                description: `Points re-embedded and written per batch (optional, default: ${DEFAULT_REINDEX_BATCH_SIZE})`,
+              },
+              swapAlias: {
+                type: 'boolean',
+                description: 'Once complete, replace the source collection with an alias of the same name pointing to the new one, ' +
+                  'so clients keep using the old name. Deletes the source collection (optional, default: false)',
+              },
+              forceSwap: {
+                type: 'boolean',
+                description: 'With swapAlias, swap even when points without text were skipped; ' +
+                  'those points are lost with the deleted source collection (optional, default: false)',
+              },
+              ...COLLECTION_OPTIONS_SCHEMA,
             },
-            required: ['filePath', 'collection', 'embeddingService'],
+            required: ['collection', 'targetCollection'],
           },
         },
         {
@@ -164,15 +626,111 @@ class BetterQdrantServer {
               },
               embeddingService: {
                 type: 'string',
-                enum: ['openai', 'openrouter', 'fastembed', 'ollama'],
-                description: 'Embedding service to use',
+                description: 'Embedding profile or provider to use (optional, defaults to the one recorded for the collection, then the collection\'s configured profile, then the default profile)',
+              },
+              vector: {
+                type: 'string',
+                description: 'Named vector to search in collections with several embedding models (optional, default: the first vector)',
               },
               limit: {
-                type: 'number',
+                type: 'integer',
                 description: 'Maximum number of results to return (optional)',
               },
+              filter: SEARCH_FILTER_SCHEMA,
+              mode: {
+                type: 'string',
+                enum: ['dense', 'sparse', 'hybrid'],
+                description: 'Search with the dense embedding, BM25 keywords, or both fused by reciprocal rank fusion (optional, default: dense; sparse and hybrid need a collection created with hybrid: true)',
+              },
+              diversity: {
+                type: 'boolean',
+                description: 'Re-rank an over-fetched candidate set with Maximal Marginal Relevance so near-duplicate chunks are not all returned (optional, default: false)',
+              },
+              mmrLambda: {
+                type: 'number',
+                minimum: 0,
+                maximum: 1,
+                description: `Relevance weight of the diversity re-ranking, from 0 (most diverse) to 1 (pure relevance) (optional, default: ${DEFAULT_MMR_LAMBDA})`,
+              },
+              collapseAdjacent: {
+                type: 'boolean',
+                description: 'Drop results from chunks adjacent to a better-ranked result of the same source (optional, default: false)',
+              },
+              rerank: {
+                type: 'boolean',
+                description: 'Re-score a wider candidate set with the reranker configured by RERANKER_SERVICE and return the best limit results with both scores (optional, default: false)',
+              },
+              rerankCandidates: {
+                type: 'integer',
+                description: `Number of candidates passed to the reranker, at least limit (optional, default: ${CANDIDATE_FACTOR} times limit)`,
+              },
+              contextWindow: {
+                type: 'integer',
+                minimum: 0,
+                maximum: MAX_CONTEXT_WINDOW,
+                description: 'Chunks of the same source to add before and after each hit, merged into one passage with its chunk and line range (optional, default: 0)',
+              },
+              outputFormat: {
+                type: 'string',
+                enum: SEARCH_OUTPUT_FORMATS,
+                description: 'Rendering of the text content: plain, markdown with footnote citations, or compact with one line per result; the structured content is the same for all (optional, default: plain)',
+              },
+              includePayload: {
+                type: 'boolean',
+                description: 'Add every payload field of each result to the structured content (optional, default: false)',
+              },
+            },
+            required: ['query', 'collection'],
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA,
+        },
+        {
+          name: 'export_collection',
+          description: 'Export every point of a collection with its vectors, payload, vector configuration and embedding models to a JSONL file, ' +
+            'to import it into another Qdrant instance without computing embeddings again',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to export',
+              },
+              filePath: {
+                type: 'string',
+                description: 'File to write; a path ending in .gz is gzip compressed',
+              },
+              batchSize: {
+                type: 'integer',
+                description: `Points read per request (optional, default: ${DEFAULT_TRANSFER_BATCH_SIZE})`,
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace the file if it exists (optional, default: false)',
+              },
+            },
+            required: ['collection', 'filePath'],
+          },
+        },
+        {
+          name: 'import_collection',
+          description: 'Import a file written by export_collection, creating the collection with the exported configuration and embedding models if it does not exist',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              filePath: {
+                type: 'string',
+                description: 'File to read; a path ending in .gz is gzip compressed',
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection to import into (optional, default: the name of the exported collection)',
+              },
+              batchSize: {
+                type: 'integer',
+                description: `Points written per request (optional, default: ${DEFAULT_TRANSFER_BATCH_SIZE})`,
+              },
             },
-            required: ['query', 'collection', 'embeddingService'],
+            required: ['filePath'],
           },
         },
         {
@@ -189,10 +747,67 @@ class BetterQdrantServer {
             required: ['collection'],
           },
         },
+        {
+          name: 'get_collection_info',
+          description: 'Get statistics and configuration of a collection: point count, status, vector configuration, payload indexes, the embedding model it was built with and its indexed source files',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to inspect',
+              },
+              sourcesOffset: {
+                type: 'number',
+                description: 'Number of source files to skip in the source list (optional, default: 0)',
+              },
+              sourcesLimit: {
+                type: 'number',
+                description: `Maximum number of source files listed (optional, default: ${DEFAULT_SOURCES_PAGE_SIZE})`,
+              },
+            },
+            required: ['collection'],
+          },
+        },
+        {
+          name: 'delete_documents',
+          description: 'Delete points from a collection by id, by source file path or glob, or by payload filter. Selectors that are given are combined, and at least one is required',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to delete points from',
+              },
+              ids: {
+                type: 'array',
+                items: { type: ['string', 'number'] },
+                description: 'Ids of the points to delete (optional)',
+              },
+              source: {
+                type: ['string', 'array'],
+                items: { type: 'string' },
+                description: 'Source file path or glob pattern, or a list of them, whose chunks are deleted (optional)',
+              },
+              filter: SEARCH_FILTER_SCHEMA,
+              dryRun: {
+                type: 'boolean',
+                description: 'Only count the points that would be deleted (optional, default: false)',
+              },
+            },
+            required: ['collection'],
+          },
+        },
       ],
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const context: ToolCallContext = {
+        signal: extra.signal,
+        progressToken: request.params._meta?.progressToken,
+        sendNotification: extra.sendNotification,
+      };
+
       switch (request.params.name) {
         case 'list_collections':
           return this.handleListCollections();
@@ -200,17 +815,47 @@ class BetterQdrantServer {
           if (!this.isAddDocumentsArgs(request.params.arguments)) {
             throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for add_documents');
           }
-          return this.handleAddDocuments(request.params.arguments);
+          return this.handleAddDocuments(request.params.arguments, context);
         case 'search':
           if (!this.isSearchArgs(request.params.arguments)) {
             throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for search');
           }
           return this.handleSearch(request.params.arguments);
+        case 'create_collection':
+          if (!this.isCreateCollectionArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for create_collection');
+          }
+          return this.handleCreateCollection(request.params.arguments);
+        case 'reindex_collection':
+          if (!this.isReindexCollectionArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for reindex_collection');
+          }
+          return this.handleReindexCollection(request.params.arguments, context);
+        case 'export_collection':
+          if (!this.isExportCollectionArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for export_collection');
+          }
+          return this.handleExportCollection(request.params.arguments, context);
+        case 'import_collection':
+          if (!this.isImportCollectionArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for import_collection');
+          }
+          return this.handleImportCollection(request.params.arguments, context);
         case 'delete_collection':
           if (!this.isDeleteCollectionArgs(request.params.arguments)) {
             throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for delete_collection');
           }
           return this.handleDeleteCollection(request.params.arguments);
+        case 'get_collection_info':
+          if (!this.isGetCollectionInfoArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for get_collection_info');
+          }
+          return this.handleGetCollectionInfo(request.params.arguments);
+        case 'delete_documents':
+          if (!this.isDeleteDocumentsArgs(request.params.arguments)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for delete_documents');
+          }
+          return this.handleDeleteDocuments(request.params.arguments);
         default:
           throw new McpError(
             ErrorCode.MethodNotFound,
@@ -220,145 +865,604 @@ class BetterQdrantServer {
     });
   }
 
-  private async handleListCollections() {
-    try {
-      const collections = await this.qdrantService.listCollections();
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    // Collections followed by their sources, paginated with the offset as cursor
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const offset = Number(request.params?.cursor ?? 0);
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${request.params?.cursor}`);
+      }
+
+      const resources: Resource[] = [];
+      const collections = (await this.qdrantService.listCollections())
+        .filter(name => name !== METADATA_COLLECTION)
+        .sort();
+
+      for (const collection of collections) {
+        resources.push({
+          uri: collectionUri(collection),
+          name: collection,
+          description: `Qdrant collection ${collection}`,
+          mimeType: 'application/json',
+        });
+        if (resources.length > offset + RESOURCES_PAGE_SIZE) break;
+
+        for (const hit of await this.listSources(collection) ?? []) {
+          resources.push({
+            uri: sourceUri(collection, String(hit.value)),
+            name: `${collection}: ${hit.value}`,
+            description: `${hit.value} reconstructed from ${hit.count} chunks`,
+            mimeType: 'text/plain',
+          });
+        }
+        if (resources.length > offset + RESOURCES_PAGE_SIZE) break;
+      }
+
+      const page = resources.slice(offset, offset + RESOURCES_PAGE_SIZE);
+      const nextOffset = offset + RESOURCES_PAGE_SIZE;
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(collections, null, 2),
-          },
-        ],
+        resources: page,
+        ...(resources.length > nextOffset ? { nextCursor: String(nextOffset) } : {}),
       };
-    } catch (error) {
-      console.error('Error in handleListCollections:', error);
-      
-      let errorDetails = '';
-      if (error instanceof Error) {
-        errorDetails = `${error.name}: ${error.message}\nStack: ${error.stack}`;
-      } else {
-        errorDetails = String(error);
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      const target = parseResourceUri(uri);
+      if (!target || target.collection === METADATA_COLLECTION) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
       }
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error listing collections: ${errorDetails}`,
+      if (!await this.qdrantService.collectionExists(target.collection)) {
+        throw new McpError(ErrorCode.InvalidParams, `Collection ${target.collection} does not exist`);
+      }
+
+      if (target.type === 'collection') {
+        const info = await this.buildCollectionInfo(target.collection, 0, DEFAULT_SOURCES_PAGE_SIZE);
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(info, null, 2) }],
+        };
+      }
+
+      const document = await this.documentReader.read(target.collection, target.source);
+      if (!document) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Source ${target.source} is not indexed in collection ${target.collection}`
+        );
+      }
+      return {
+        contents: [{ uri, mimeType: 'text/plain', text: document.text }],
+      };
+    });
+  }
+
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.list().map(template => ({
+        name: template.name,
+        description: template.description,
+        arguments: [...COMMON_PROMPT_ARGUMENTS, ...template.arguments],
+      })),
+    }));
+
+    // Retrieval runs here, so the client receives a prompt with the passages already filled in
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const template = this.prompts.get(request.params.name);
+      if (!template) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+      }
+
+      const values: Record<string, string> = request.params.arguments ?? {};
+      const missing = [...COMMON_PROMPT_ARGUMENTS, ...template.arguments]
+        .filter(argument => argument.required && !values[argument.name]?.trim())
+        .map(argument => argument.name);
+      if (missing.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing arguments for prompt ${template.name}: ${missing.join(', ')}`
+        );
+      }
+
+      const limit = values.limit ? Number(values.limit) : template.retrieval.limit ?? DEFAULT_PROMPT_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid limit: ${values.limit}`);
+      }
+      if (values.collection === METADATA_COLLECTION || !await this.qdrantService.collectionExists(values.collection)) {
+        throw new McpError(ErrorCode.InvalidParams, `Collection ${values.collection} does not exist`);
+      }
+
+      const passages = await this.retrievePassages(template, values, limit);
+      return {
+        description: template.description,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: renderTemplate(template.template, { ...values, passages: formatPassages(passages) }),
+            },
           },
         ],
-        isError: true,
       };
-    }
+    });
   }
 
-  private async handleAddDocuments(args: AddDocumentsArgs) {
-    try {
-      // Configure text processor if custom settings provided
-      if (args.chunkSize) {
-        this.textProcessor.setChunkSize(args.chunkSize);
+  /**
+   * Retrieves the passages of a prompt with the search pipeline. A prompt on a
+   * single source without a query reads the source's first chunks in order.
+   */
+  private async retrievePassages(
+    template: PromptTemplate,
+    values: Record<string, string>,
+    limit: number
+  ): Promise<Array<Pick<SearchResult, 'payload'>>> {
+    const { retrieval } = template;
+    const query = renderTemplate(retrieval.query, values).trim();
+    const sources = retrieval.source ? splitSources(renderTemplate(retrieval.source, values)) : [];
+
+    if (!query) {
+      if (sources.length !== 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${template.name} needs a query to retrieve passages`);
       }
-      if (args.chunkOverlap) {
-        this.textProcessor.setChunkOverlap(args.chunkOverlap);
+      // Relative paths name the stored absolute path they end with
+      const resolved = await this.filterBuilder.resolveSources(values.collection, sources);
+      if (resolved.length > 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Source ${sources[0]} matches ${resolved.length} indexed sources`);
       }
+      const source = resolved[0];
+      const chunks = await this.documentReader.readChunks(values.collection, source);
+      return chunks.slice(0, limit);
+    }
 
-      // Read and process the file
-      const content = readFileSync(args.filePath, 'utf-8');
-      const chunks = await this.textProcessor.processFile(content, args.filePath);
-
-      // Create and initialize embedding service
-      const embeddingService = await createAndInitializeEmbeddingService({
-        type: args.embeddingService,
-        apiKey: process.env[`${args.embeddingService.toUpperCase()}_API_KEY`],
-        endpoint: process.env[`${args.embeddingService.toUpperCase()}_ENDPOINT`],
-        model: process.env[`${args.embeddingService.toUpperCase()}_MODEL`],
+    const passages: SearchResult[] = [];
+    const groups = retrieval.perSource ? sources.map(source => [source]) : [sources];
+    for (const group of groups) {
+      const search = await this.runSearch({
+        query,
+        collection: values.collection,
+        limit,
+        mode: retrieval.mode,
+        diversity: retrieval.diversity,
+        collapseAdjacent: retrieval.collapseAdjacent,
+        rerank: retrieval.rerank,
+        filter: group.length > 0 ? { source: group } : undefined,
       });
+      if ('error' in search) {
+        throw new McpError(ErrorCode.InvalidRequest, search.error);
+      }
+      passages.push(...search.results);
+    }
+    return passages;
+  }
 
-      // Validate embedding compatibility with collection
-      const compatibilityResult = await this.validationService.validateEmbeddingCompatibility(
-        args.collection,
-        embeddingService
+  /**
+   * Builds the embedding service configuration for a vector of a collection. Without
+   * an explicit profile, the provider and model recorded for the vector are used, then
+   * the collection's configured profile, then the default profile.
+   * @param requested Embedding profile or provider named by the call
+   * @param vectorName Named vector; "" for the unnamed vector
+   * @param model Model requested for the vector, overriding the profile's model
+   */
+  private async resolveEmbeddingConfig(
+    collection: string,
+    requested?: string,
+    vectorName: string = '',
+    model?: string
+  ): Promise<EmbeddingServiceConfig> {
+    const { profiles, defaultProfile } = this.config.embedding;
+    const metadata = await this.metadataStore.get(collection);
+    const recorded = metadata ? vectorModel(metadata, vectorName) : null;
+    // A profile of the recorded model keeps its endpoint and key; the provider's own profile otherwise
+    const recordedProfile = recorded
+      ? Object.keys(profiles).find(name => profiles[name].type === recorded.provider && profiles[name].model === recorded.model) ??
+        recorded.provider
+      : undefined;
+    const name = requested || recordedProfile || this.config.collections[collection]?.embeddingProfile || defaultProfile;
+
+    if (!name) {
+      throw new Error(
+        `No embedding service recorded for collection ${collection}; pass embeddingService or configure a default embedding profile`
       );
+    }
+    const profile = profiles[name];
+    if (!profile) {
+      throw new Error(`Unknown embedding profile or service: ${name}; available: ${Object.keys(profiles).join(', ')}`);
+    }
 
-      if (!compatibilityResult.isValid) {
-        let errorMessage = `Embedding compatibility error: ${compatibilityResult.reason}`;
-        if (compatibilityResult.suggestedActions) {
-          errorMessage += '\n\nSuggested actions:\n' + 
-            compatibilityResult.suggestedActions.map(action => `- ${action}`).join('\n');
-        }
-        
+    return {
+      ...profile,
+      // A call naming no service or model stays on the model the collection was built with;
+      // otherwise the requested model wins, then the profile's
+      model: model ||
+        (!requested && recorded ? recorded.model : undefined) ||
+        profile.model ||
+        (recorded?.provider === profile.type ? recorded.model : undefined),
+    };
+  }
+
+  /**
+   * Settings of a collection a call creates: those given in the call over the
+   * collection's configured defaults
+   */
+  private collectionOptionsFor(collection: string, args: object): CollectionOptions {
+    return {
+      ...pickCollectionOptions(this.config.collections[collection] ?? {}),
+      ...pickCollectionOptions(args),
+    };
+  }
+
+  /**
+   * Creates the embedding service of each dense vector a call fills, by vector name.
+   * Collections with named vectors get every recorded vector, using the requested
+   * services where given; other collections get one service for the unnamed vector.
+   */
+  private async createEmbeddingServices(
+    collection: string,
+    args: { embeddingService?: string; vectors?: VectorArg[] }
+  ): Promise<Record<string, EmbeddingGenerator>> {
+    const metadata = await this.metadataStore.get(collection);
+    let targets: Array<{ name: string; embeddingService?: string; model?: string }>;
+
+    if (args.vectors) {
+      if (args.embeddingService) {
+        throw new Error('Pass either embeddingService or vectors, not both');
+      }
+      const names = args.vectors.map(vector => vector.name);
+      if (args.vectors.length === 0 || names.some(name => name === '' || name === SPARSE_VECTOR_NAME)) {
+        throw new Error(`vectors must name at least one vector; "" and "${SPARSE_VECTOR_NAME}" are reserved`);
+      }
+      if (new Set(names).size !== names.length) {
+        throw new Error('Vector names must be unique');
+      }
+      const recordedNames = Object.keys(metadata?.vectors ?? {});
+      targets = [
+        ...args.vectors,
+        ...recordedNames.filter(name => !names.includes(name)).map(name => ({ name })),
+      ];
+    } else if (metadata?.vectors) {
+      if (args.embeddingService) {
+        throw new Error(
+          `Collection ${collection} has named vectors (${Object.keys(metadata.vectors).join(', ')}); pass vectors instead of embeddingService`
+        );
+      }
+      targets = Object.keys(metadata.vectors).map(name => ({ name }));
+    } else {
+      targets = [{ name: '', embeddingService: args.embeddingService }];
+    }
+
+    const services: Record<string, EmbeddingGenerator> = {};
+    for (const target of targets) {
+      services[target.name] = await createAndInitializeEmbeddingService(
+        await this.resolveEmbeddingConfig(collection, target.embeddingService, target.name, target.model),
+        this.embeddingCache
+      );
+    }
+    return services;
+  }
+
+  /**
+   * Adds the passage of neighbouring chunks around a search hit. Hits without
+   * source and chunk index are returned as they are.
+   * @param window Chunks added on each side of the hit
+   */
+  private async withContext(collection: string, result: SearchResult, window: number): Promise<SearchResult> {
+    const { source, index } = result.payload;
+    if (typeof source !== 'string' || typeof index !== 'number') {
+      return result;
+    }
+    const context = await this.documentReader.readContext(collection, source, index, window);
+    return context ? { ...result, context } : result;
+  }
+
+  /**
+   * Re-scores search results with the configured reranker and orders them by the new score.
+   * The original search score is kept next to the rerank score.
+   */
+  private async rerankResults(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length === 0) {
+      return results;
+    }
+
+    if (!this.reranker) {
+      const { cacheDir, ...rerankerConfig } = this.config.reranker;
+      this.reranker = createReranker(rerankerConfig, cacheDir);
+    }
+
+    const texts = results.map(result => result.payload.text || result.payload.content || JSON.stringify(result.payload));
+    const scores = await this.reranker.rerank(query, texts);
+
+    return results
+      .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  }
+
+  private async handleListCollections() {
+    try {
+      const collections = (await this.qdrantService.listCollections())
+        .filter(name => name !== METADATA_COLLECTION);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(collections, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Error in handleListCollections:', error);
+      
+      let errorDetails = '';
+      if (error instanceof Error) {
+        errorDetails = `${error.name}: ${error.message}\nStack: ${error.stack}`;
+      } else {
+        errorDetails = String(error);
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing collections: ${errorDetails}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleAddDocuments(args: AddDocumentsArgs, context: ToolCallContext = {}) {
+    const { signal } = context;
+    const progress = this.progressReporter(context);
+
+    try {
+      const collectionOptionErrors = validateCollectionOptions(args as unknown as Record<string, unknown>);
+      if (collectionOptionErrors.length > 0) {
         return {
           content: [
             {
               type: 'text',
-              text: errorMessage,
+              text: `Invalid collection settings:\n${collectionOptionErrors.map(error => `- ${error}`).join('\n')}`,
             },
           ],
           isError: true,
         };
       }
 
-      // Generate embeddings
-      const embeddings = await embeddingService.generateEmbeddings(
-        chunks.map(chunk => chunk.text)
-      );
+      // Chunking settings belong to this request only
+      const defaults = this.config.collections[args.collection];
+      const chunking = this.chunkingProfiles.resolve(args.chunkingProfile ?? defaults?.chunkingProfile, {
+        strategy: args.chunkStrategy,
+        unit: args.chunkUnit,
+        size: args.chunkSize,
+        overlap: args.chunkOverlap,
+        separators: args.separators,
+      });
 
-      // Validate vector data before adding to collection
-      const vectorValidation = this.validationService.validateVectorData(
-        embeddings,
-        embeddingService.vectorSize
-      );
+      // Resolve the file or directory into the list of files to ingest
+      const files = discoverFiles(args.filePath, {
+        include: args.include,
+        exclude: args.exclude,
+        respectGitignore: args.respectGitignore,
+      });
 
-      if (!vectorValidation.isValid) {
-        let errorMessage = `Vector validation failed:\n${vectorValidation.errors.join('\n')}`;
-        if (vectorValidation.warnings.length > 0) {
-          errorMessage += '\n\nWarnings:\n' + vectorValidation.warnings.join('\n');
-        }
-        
+      if (files.length === 0) {
         return {
           content: [
             {
               type: 'text',
-              text: errorMessage,
+              text: `No files matched in ${args.filePath}`,
             },
           ],
           isError: true,
         };
       }
 
-      // Create collection if it doesn't exist (only if validation passed)
-      if (compatibilityResult.action === 'create_collection') {
-        await this.qdrantService.createCollection(args.collection, embeddingService.vectorSize);
+      // Create and initialize the embedding service of each vector
+      const embeddingServices = await this.createEmbeddingServices(args.collection, args);
+      const services = Object.entries(embeddingServices);
+
+      // Validate embedding compatibility with each vector of the collection
+      let collectionExists = true;
+      for (const [vectorName, embeddingService] of services) {
+        const compatibilityResult = await this.validationService.validateEmbeddingCompatibility(
+          args.collection,
+          embeddingService,
+          vectorName
+        );
+
+        if (!compatibilityResult.isValid) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: this.formatValidationError(
+                  vectorName ? `Embedding compatibility error for vector "${vectorName}"` : 'Embedding compatibility error',
+                  compatibilityResult
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
+        collectionExists = compatibilityResult.action !== 'create_collection';
+      }
+      const warnings: string[] = [];
+
+      // Collection settings only shape a collection this call creates
+      const requestedOptions = pickCollectionOptions(args);
+      if (collectionExists && Object.keys(requestedOptions).length > 0) {
+        warnings.push(
+          `Collection settings ignored (${Object.keys(requestedOptions).join(', ')}): collection ${args.collection} already exists`
+        );
+      }
+      const collectionOptions = this.collectionOptionsFor(args.collection, args);
+      if (!collectionExists) {
+        for (const [, embeddingService] of services) {
+          const distanceResult = this.validationService.validateDistance(
+            collectionOptions.distance ?? 'Cosine',
+            embeddingService
+          );
+          if (!distanceResult.isValid) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatValidationError('Distance error', distanceResult),
+                },
+              ],
+              isError: true,
+            };
+          }
+          warnings.push(...distanceResult.warnings);
+        }
       }
 
-      // Add documents to collection
-      await this.qdrantService.addDocuments(
-        args.collection,
-        chunks.map((chunk, i) => ({
-          id: uuidv4(),
-          vector: embeddings[i],
-          payload: {
-            text: chunk.text,
-            ...chunk.metadata,
-          },
-        }))
+      // Existing collections keep their layout; new ones get a sparse vector when hybrid is requested
+      const sparse = collectionExists
+        ? (await this.qdrantService.getCollectionInfo(args.collection))?.sparseVectors.includes(SPARSE_VECTOR_NAME) ?? false
+        : (args.hybrid ?? defaults?.hybrid) === true;
+      // Token sizes are counted with the first model's tokenizer
+      const textProcessor = new TextProcessor(
+        chunking,
+        await createLengthFunction(chunking, services[0][1].modelName)
       );
+      const results: FileIngestionResult[] = [];
+
+      let cancelled = false;
+
+      for (const [fileIndex, file] of files.entries()) {
+        // Stop between files; a file already being written is always completed
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
+        }
+
+        // Progress is counted in files, with stages of the current file as fractions
+        const report = (fraction: number, message: string) => progress.report(
+          fileIndex + fraction,
+          files.length,
+          `[${fileIndex + 1}/${files.length}] ${file.relativePath}: ${message}`
+        );
+
+        try {
+          await report(0, 'chunking');
+          const loader = getDocumentLoader(file.path, args.format);
+          if (!loader.binary && isBinaryFile(file.path)) {
+            results.push({ path: file.path, status: 'skipped', chunks: 0, message: 'binary file' });
+            continue;
+          }
+
+          // Extract documents with the format's loader and chunk them
+          const content = readFileSync(file.path);
+          const loading = {
+            format: loader.format,
+            textFields: args.textFields,
+            payloadFields: args.payloadFields,
+          };
+          const documents = await loader.load(content, loading);
+          const chunks = await textProcessor.processDocuments(documents, file.path);
+
+          if (chunks.length === 0) {
+            results.push({ path: file.path, status: 'skipped', chunks: 0, message: 'no content' });
+            continue;
+          }
+
+          // Embed new chunks, reuse unchanged ones and drop stale points
+          const indexResult = await this.indexer.indexFile({
+            collection: args.collection,
+            source: file.path,
+            content,
+            chunks,
+            chunking,
+            loading,
+            embeddingServices,
+            collectionExists,
+            sparse,
+            collectionOptions,
+            signal,
+            onProgress: stage => void (stage.stage === 'embedding'
+              ? report(0.1 + 0.7 * stage.completed / stage.total, `embedding batch ${stage.completed} of ${stage.total}`)
+              : report(0.9, 'upserting')),
+          });
+          collectionExists = true;
+
+          warnings.push(...indexResult.warnings.map(warning => `${file.path}: ${warning}`));
+          results.push({
+            path: file.path,
+            status: indexResult.status,
+            chunks: indexResult.chunks,
+            embedded: indexResult.embedded,
+            removed: indexResult.removed,
+          });
+        } catch (error) {
+          if (error instanceof OperationCancelledError) {
+            cancelled = true;
+            break;
+          }
+          results.push({
+            path: file.path,
+            status: 'failed',
+            chunks: 0,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      await progress.report(files.length, files.length, cancelled ? 'cancelled' : 'done');
+
+      const indexed = results.filter(result => result.status === 'added' || result.status === 'updated');
+      const unchanged = results.filter(result => result.status === 'unchanged');
+      const failed = results.filter(result => result.status === 'failed');
+      const skipped = results.filter(result => result.status === 'skipped');
+      const totalChunks = indexed.reduce((sum, result) => sum + result.chunks, 0);
+
+      let summary: string;
+      if (files.length === 1 && indexed.length === 1) {
+        const [result] = indexed;
+        summary = `Successfully processed and added ${totalChunks} chunks to collection ${args.collection}`;
+        if (result.status === 'updated') {
+          summary += ` (${result.embedded} re-embedded, ${result.removed} stale chunks removed)`;
+        }
+      } else if (files.length === 1 && unchanged.length === 1) {
+        summary = `File ${unchanged[0].path} is unchanged since it was last indexed in collection ${args.collection}`;
+      } else if (files.length === 1 && failed.length === 1) {
+        summary = `Error adding documents: ${failed[0].message}`;
+      } else {
+        summary = `Processed ${results.length} files: indexed ${totalChunks} chunks from ${indexed.length} files into collection ${args.collection}, ` +
+          `${unchanged.length} unchanged, ${skipped.length} skipped, ${failed.length} failed\n\n` +
+          results.map(result => this.formatFileResult(result)).join('\n');
+      }
+
+      if (cancelled) {
+        summary = `Cancelled after ${results.length} of ${files.length} files; every processed file was written completely\n\n` +
+          results.map(result => this.formatFileResult(result)).join('\n');
+      }
+
+      const cached = services
+        .map(([, embeddingService]) => embeddingService)
+        .filter(embeddingService => embeddingService instanceof CachedEmbeddingService);
+      if (cached.length > 0) {
+        const hits = cached.reduce((sum, embeddingService) => sum + embeddingService.stats.hits, 0);
+        const misses = cached.reduce((sum, embeddingService) => sum + embeddingService.stats.misses, 0);
+        summary += `\n\nEmbedding cache: ${hits} hits, ${misses} misses`;
+      }
 
-      let successMessage = `Successfully processed and added ${chunks.length} chunks to collection ${args.collection}`;
-      
       // Add validation warnings if any
-      if (vectorValidation.warnings.length > 0) {
-        successMessage += '\n\nWarnings:\n' + vectorValidation.warnings.join('\n');
+      if (warnings.length > 0) {
+        summary += '\n\nWarnings:\n' + warnings.join('\n');
       }
 
       return {
         content: [
           {
             type: 'text',
-            text: successMessage,
+            text: summary,
           },
         ],
+        isError: cancelled || (failed.length > 0 && failed.length === results.length),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -374,20 +1478,69 @@ class BetterQdrantServer {
     }
   }
 
-  private async handleSearch(args: SearchArgs) {
-    try {
+  private formatFileResult(result: FileIngestionResult): string {
+    switch (result.status) {
+      case 'added':
+        return `✓ ${result.path} (${result.chunks} chunks)`;
+      case 'updated':
+        return `✓ ${result.path} (${result.chunks} chunks, ${result.embedded} re-embedded, ${result.removed} removed)`;
+      case 'unchanged':
+        return `= ${result.path} (unchanged)`;
+      case 'skipped':
+        return `- ${result.path} (skipped: ${result.message})`;
+      case 'failed':
+        return `✗ ${result.path} (failed: ${result.message})`;
+    }
+  }
+
+  /**
+   * Runs the search pipeline: query embedding, search, then the optional reranking,
+   * diversification and collapsing steps
+   * @returns The results, or the reason the search cannot run
+   */
+  private async runSearch(
+    args: SearchArgs
+  ): Promise<{ results: SearchResult[]; warnings: string[] } | { error: string }> {
+    // Validate the payload filter before doing any embedding work
+    if (args.filter !== undefined) {
+      const filterValidation = validateSearchFilter(args.filter);
+      if (!filterValidation.isValid) {
+        return { error: `Invalid filter:\n${filterValidation.errors.map(error => `- ${error}`).join('\n')}` };
+      }
+    }
+
+    const mode = args.mode || 'dense';
+
+    // Sparse and hybrid search need a collection with the BM25 sparse vector
+    const modeValidation = await this.validationService.validateSearchMode(args.collection, mode);
+    if (!modeValidation.isValid) {
+      let errorMessage = `Search mode error: ${modeValidation.reason}`;
+      if (modeValidation.suggestedActions) {
+        errorMessage += '\n\nSuggested actions:\n' +
+          modeValidation.suggestedActions.map(action => `- ${action}`).join('\n');
+      }
+
+      return { error: errorMessage };
+    }
+
+    let queryEmbedding: number[] | undefined;
+    let vectorWarnings: string[] = [];
+
+    // Collections with named vectors are searched on the first one unless the request picks one
+    const vectorName = args.vector ?? defaultVectorName(await this.metadataStore.get(args.collection));
+
+    if (mode !== 'sparse') {
       // Create and initialize embedding service
-      const embeddingService = await createAndInitializeEmbeddingService({
-        type: args.embeddingService,
-        apiKey: process.env[`${args.embeddingService.toUpperCase()}_API_KEY`],
-        endpoint: process.env[`${args.embeddingService.toUpperCase()}_ENDPOINT`],
-        model: process.env[`${args.embeddingService.toUpperCase()}_MODEL`],
-      });
+      const embeddingService = await createAndInitializeEmbeddingService(
+        await this.resolveEmbeddingConfig(args.collection, args.embeddingService, vectorName),
+        this.embeddingCache
+      );
 
-      // Validate embedding compatibility with collection
+      // Validate embedding compatibility with the searched vector
       const compatibilityResult = await this.validationService.validateEmbeddingCompatibility(
         args.collection,
-        embeddingService
+        embeddingService,
+        vectorName
       );
 
       if (!compatibilityResult.isValid) {
@@ -397,19 +1550,11 @@ class BetterQdrantServer {
             compatibilityResult.suggestedActions.map(action => `- ${action}`).join('\n');
         }
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: errorMessage,
-            },
-          ],
-          isError: true,
-        };
+        return { error: errorMessage };
       }
 
       // Generate query embedding
-      const [queryEmbedding] = await embeddingService.generateEmbeddings([args.query]);
+      [queryEmbedding] = await embeddingService.generateEmbeddings([args.query]);
 
       // Validate the query vector
       const vectorValidation = this.validationService.validateVectorData(
@@ -418,57 +1563,94 @@ class BetterQdrantServer {
       );
 
       if (!vectorValidation.isValid) {
+        return { error: `Query vector validation failed: ${vectorValidation.errors.join(', ')}` };
+      }
+      vectorWarnings = vectorValidation.warnings;
+    }
+
+    // Translate the filter, making sure the fields it relies on are indexed
+    let filter;
+    if (args.filter) {
+      await this.qdrantService.ensurePayloadIndexes(args.collection);
+      filter = await this.filterBuilder.build(args.collection, args.filter);
+    }
+
+    // Diversity and collapsing pick from a larger candidate set fetched with vectors
+    const limit = args.limit ?? 10;
+    const rerankLocally = args.diversity === true || args.collapseAdjacent === true || args.rerank === true;
+    // An explicit number of rerank candidates is fetched as given, but never fewer than limit
+    const fetchLimit = args.rerank && args.rerankCandidates !== undefined
+      ? Math.max(args.rerankCandidates, limit)
+      : rerankLocally ? limit * CANDIDATE_FACTOR : limit;
+    const searchOptions = { withVector: args.diversity === true, using: vectorName || undefined };
+
+    // Search collection
+    let results = mode === 'dense'
+      ? await this.qdrantService.search(args.collection, queryEmbedding!, fetchLimit, filter, searchOptions)
+      : await this.qdrantService.hybridSearch(
+          args.collection,
+          {
+            vector: queryEmbedding,
+            sparseVector: this.sparseEncoder.encodeQuery(args.query),
+          },
+          fetchLimit,
+          filter,
+          searchOptions
+        );
+
+    if (args.rerank) {
+      results = await this.rerankResults(args.query, results);
+    }
+    if (args.diversity) {
+      // After reranking, relevance comes from the rerank scores rather than the query vector
+      results = maximalMarginalRelevance(
+        results,
+        results.length,
+        args.mmrLambda,
+        args.rerank ? undefined : queryEmbedding
+      );
+    }
+    if (args.collapseAdjacent) {
+      results = collapseAdjacentChunks(results);
+    }
+    results = results.slice(0, limit);
+
+    if (args.contextWindow) {
+      results = await Promise.all(results.map(result => this.withContext(args.collection, result, args.contextWindow!)));
+    }
+
+    return { results, warnings: vectorWarnings };
+  }
+
+  private async handleSearch(args: SearchArgs) {
+    try {
+      const search = await this.runSearch(args);
+      if ('error' in search) {
         return {
           content: [
             {
               type: 'text',
-              text: `Query vector validation failed: ${vectorValidation.errors.join(', ')}`,
+              text: search.error,
             },
           ],
           isError: true,
         };
       }
-
-      // Search collection
-      const results = await this.qdrantService.search(
-        args.collection,
-        queryEmbedding,
-        args.limit
+      // Agents cite and follow up on the structured results; the text rendering is for reading
+      const output = toSearchOutput(
+        search.results,
+        { query: args.query, collection: args.collection, mode: args.mode ?? 'dense', includePayload: args.includePayload },
+        search.warnings
       );
 
-      // Format the results to only include the payload text
-      let responseText = '';
-      
-      results.forEach((result, index) => {
-        // For documents collection, the text is in result.payload.text
-        // For other collections, it might be in different fields
-        const text = result.payload.text || result.payload.content || JSON.stringify(result.payload);
-        const source = result.payload.source || result.payload.metadata?.source || '';
-        const score = result.score.toFixed(2);
-        
-        responseText += `Result ${index + 1} (Score: ${score}):\n${text}\n`;
-        if (source) {
-          responseText += `Source: ${source}\n`;
-        }
-        responseText += '\n';
-      });
-      
-      if (responseText === '') {
-        responseText = 'No results found.';
-      }
-
-      // Add validation warnings if any
-      if (vectorValidation.warnings.length > 0) {
-        responseText += '\nQuery vector warnings:\n' + vectorValidation.warnings.join('\n');
-      }
-
       return {
         content: [
           {
             type: 'text',
-            text: responseText,
+            text: renderSearchOutput(output, args.outputFormat),
           },
         ],
+        structuredContent: output,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -484,16 +1666,73 @@ class BetterQdrantServer {
     }
   }
 
-  private async handleDeleteCollection(args: DeleteCollectionArgs) {
+  private async handleCreateCollection(args: CreateCollectionArgs) {
     try {
-      // Delete the collection
-      await this.qdrantService.deleteCollection(args.collection);
-      
+      const optionErrors = validateCollectionOptions(args as unknown as Record<string, unknown>);
+      if (optionErrors.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Invalid collection settings:\n${optionErrors.map(error => `- ${error}`).join('\n')}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (args.collection === METADATA_COLLECTION) {
+        throw new Error(`${METADATA_COLLECTION} is reserved for collection metadata`);
+      }
+      if (await this.qdrantService.collectionExists(args.collection)) {
+        throw new Error(`Collection ${args.collection} already exists`);
+      }
+
+      // The embedding services determine the vector sizes and are recorded for later calls
+      const embeddingServices = await this.createEmbeddingServices(args.collection, args);
+
+      const options = this.collectionOptionsFor(args.collection, args);
+      const sparse = (args.hybrid ?? this.config.collections[args.collection]?.hybrid) === true;
+      const distance = options.distance ?? 'Cosine';
+      const warnings: string[] = [];
+      for (const embeddingService of Object.values(embeddingServices)) {
+        const distanceResult = this.validationService.validateDistance(distance, embeddingService);
+        if (!distanceResult.isValid) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: this.formatValidationError('Distance error', distanceResult),
+              },
+            ],
+            isError: true,
+          };
+        }
+        warnings.push(...distanceResult.warnings);
+      }
+
+      await createCollectionWithMetadata(
+        this.qdrantService,
+        this.metadataStore,
+        args.collection,
+        embeddingServices,
+        { ...options, sparse }
+      );
+
+      const vectors = Object.entries(embeddingServices).map(([vectorName, embeddingService]) =>
+        `${vectorName ? `vector "${vectorName}": ` : ''}${embeddingService.provider} model ` +
+        `"${embeddingService.modelName}" (${embeddingService.vectorSize} dimensions)`
+      );
+      let text = `Successfully created collection ${args.collection} with ${distance} distance` +
+        `${sparse ? ' and BM25 sparse vectors' : ''}\n` + vectors.map(vector => `- ${vector}`).join('\n');
+      if (warnings.length > 0) {
+        text += '\n\nWarnings:\n' + warnings.join('\n');
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully deleted collection: ${args.collection}`,
+            text,
           },
         ],
       };
@@ -503,7 +1742,7 @@ class BetterQdrantServer {
         content: [
           {
             type: 'text',
-            text: `Error deleting collection: ${errorMessage}`,
+            text: `Error creating collection: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -511,15 +1750,645 @@ class BetterQdrantServer {
     }
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Better Qdrant MCP server running on stdio');
-  }
+  private async handleReindexCollection(args: ReindexCollectionArgs, context: ToolCallContext = {}) {
+    const progress = this.progressReporter(context);
+
+    try {
+      const optionErrors = validateCollectionOptions(args as unknown as Record<string, unknown>);
+      if (optionErrors.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Invalid collection settings:\n${optionErrors.map(error => `- ${error}`).join('\n')}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const { collection, targetCollection } = args;
+      if ([collection, targetCollection].includes(METADATA_COLLECTION)) {
+        throw new Error(`${METADATA_COLLECTION} is reserved for collection metadata`);
+      }
+      if (collection === targetCollection) {
+        throw new Error('targetCollection must differ from collection');
+      }
+      const sourceAlias = (await this.qdrantService.listAliases()).find(alias => alias.alias === collection);
+      const sourceInfo = await this.qdrantService.getCollectionInfo(sourceAlias?.collection ?? collection);
+      if (!sourceInfo) {
+        throw new Error(`Collection ${collection} does not exist`);
+      }
+
+      const resuming = await this.qdrantService.collectionExists(targetCollection);
+      if (resuming && !await this.reindexer.isUnfinishedReindex(collection, targetCollection)) {
+        throw new Error(`Collection ${targetCollection} already exists; choose a new targetCollection`);
+      }
+
+      // A resumed reindex keeps the models recorded when it started
+      const embeddingServices = await this.createEmbeddingServices(targetCollection, args);
+      const services = Object.entries(embeddingServices);
+      const requestedOptions = pickCollectionOptions(args);
+      const collectionOptions = this.collectionOptionsFor(targetCollection, args);
+      const warnings: string[] = [];
+
+      if (resuming) {
+        for (const [vectorName, embeddingService] of services) {
+          const compatibilityResult = await this.validationService.validateEmbeddingCompatibility(
+            targetCollection,
+            embeddingService,
+            vectorName
+          );
+          if (!compatibilityResult.isValid) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatValidationError(
+                    vectorName ? `Embedding compatibility error for vector "${vectorName}"` : 'Embedding compatibility error',
+                    compatibilityResult
+                  ),
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+        if (Object.keys(requestedOptions).length > 0) {
+          warnings.push(
+            `Collection settings ignored (${Object.keys(requestedOptions).join(', ')}): collection ${targetCollection} already exists`
+          );
+        }
+      } else {
+        for (const [, embeddingService] of services) {
+          const distanceResult = this.validationService.validateDistance(
+            collectionOptions.distance ?? 'Cosine',
+            embeddingService
+          );
+          if (!distanceResult.isValid) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatValidationError('Distance error', distanceResult),
+                },
+              ],
+              isError: true,
+            };
+          }
+          warnings.push(...distanceResult.warnings);
+        }
+      }
+
+      // The target keeps the sparse vector of the source unless told otherwise
+      const sparse = resuming
+        ? (await this.qdrantService.getCollectionInfo(targetCollection))?.sparseVectors.includes(SPARSE_VECTOR_NAME) ?? false
+        : args.hybrid ?? this.config.collections[targetCollection]?.hybrid ?? sourceInfo.sparseVectors.includes(SPARSE_VECTOR_NAME);
+
+      const result = await this.reindexer.reindex({
+        source: collection,
+        target: targetCollection,
+        embeddingServices,
+        sparse,
+        collectionOptions,
+        batchSize: args.batchSize,
+        signal: context.signal,
+        onProgress: (processed, total) => {
+          void progress.report(processed, total, `${processed}/${total} points`);
+        },
+      });
+      warnings.push(...result.warnings);
+
+      const counts = `${result.copied} points re-embedded` +
+        (result.skipped > 0 ? `, ${result.skipped} without text skipped` : '');
+      if (result.status === 'cancelled') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Cancelled reindexing ${collection} into ${targetCollection} after ${result.copied + result.skipped} of ${result.total} points (${counts}).\n` +
+                'Call reindex_collection again with the same collections to resume.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      let text = `Successfully ${result.resumed ? 'resumed and completed' : 'completed'} reindexing ${collection} into ${targetCollection}: ${counts}\n` +
+        services.map(([vectorName, embeddingService]) =>
+          `- ${vectorName ? `vector "${vectorName}": ` : ''}${embeddingService.provider} model ` +
+          `"${embeddingService.modelName}" (${embeddingService.vectorSize} dimensions)`
+        ).join('\n');
+
+      // Skipped points exist only in the source collection, which the swap deletes
+      const swapRefused = args.swapAlias && !sourceAlias && result.skipped > 0 && !args.forceSwap;
+      if (swapRefused) {
+        text += `\n\nAlias not swapped: ${result.skipped} points without text were not copied to ${targetCollection} ` +
+          `and would be lost with ${collection}. Call reindex_collection again with forceSwap to swap anyway`;
+      } else if (args.swapAlias) {
+        // An alias cannot share its name with a collection, so a source that is not an alias goes first
+        if (!sourceAlias) {
+          await this.qdrantService.deleteCollection(collection);
+        }
+        await this.qdrantService.setAlias(collection, targetCollection);
+        const targetMetadata = await this.metadataStore.get(targetCollection);
+        if (targetMetadata) {
+          await this.metadataStore.set(collection, targetMetadata);
+        }
+        text += `\n\n${collection} is now an alias of ${targetCollection}`;
+        text += sourceAlias
+          ? `; ${sourceAlias.collection}, which it pointed to before, was kept`
+          : `; the original ${collection} collection was deleted`;
+      }
+
+      if (warnings.length > 0) {
+        text += '\n\nWarnings:\n' + warnings.join('\n');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error reindexing collection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Reports progress of a tool call to the client that made it
+   */
+  private progressReporter(context: ToolCallContext): ProgressReporter {
+    return new ProgressReporter(
+      async params => context.sendNotification?.({ method: 'notifications/progress', params }),
+      context.progressToken
+    );
+  }
+
+  /**
+   * Formats a failed validation with its suggested actions
+   */
+  private formatValidationError(label: string, result: { reason: string; suggestedActions?: string[] }): string {
+    let message = `${label}: ${result.reason}`;
+    if (result.suggestedActions) {
+      message += '\n\nSuggested actions:\n' + result.suggestedActions.map(action => `- ${action}`).join('\n');
+    }
+    return message;
+  }
+
+  private async handleExportCollection(args: ExportCollectionArgs, context: ToolCallContext = {}) {
+    const progress = this.progressReporter(context);
+
+    try {
+      if (args.collection === METADATA_COLLECTION) {
+        throw new Error(`${METADATA_COLLECTION} is reserved for collection metadata`);
+      }
+      if (!await this.qdrantService.collectionExists(args.collection)) {
+        throw new Error(`Collection ${args.collection} does not exist`);
+      }
+      if (existsSync(args.filePath) && !args.overwrite) {
+        throw new Error(`${args.filePath} already exists; pass "overwrite": true to replace it`);
+      }
+
+      const result = await this.transfer.exportCollection({
+        collection: args.collection,
+        filePath: args.filePath,
+        batchSize: args.batchSize,
+        signal: context.signal,
+        onProgress: (exported, total) => {
+          void progress.report(exported, total, `${exported}/${total} points`);
+        },
+      });
+
+      if (result.status === 'cancelled') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Cancelled exporting ${args.collection} after ${result.points} points; the partial file was removed`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully exported ${result.points} points of ${args.collection} to ${args.filePath}` +
+              `${result.gzip ? ' (gzip)' : ''}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error exporting collection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleImportCollection(args: ImportCollectionArgs, context: ToolCallContext = {}) {
+    const progress = this.progressReporter(context);
+
+    try {
+      if (!existsSync(args.filePath)) {
+        throw new Error(`File not found: ${args.filePath}`);
+      }
+      const header = await readExportHeader(args.filePath);
+      const collection = args.collection ?? header.collection;
+      if (collection === METADATA_COLLECTION) {
+        throw new Error(`${METADATA_COLLECTION} is reserved for collection metadata`);
+      }
+
+      // Existing collections must hold vectors of the same size and model; files
+      // without recorded models are only checked for sizes, batch by batch
+      if (header.metadata && await this.qdrantService.collectionExists(collection)) {
+        for (const [vectorName, params] of Object.entries(header.vectors)) {
+          const model = vectorModel(header.metadata, vectorName);
+          if (!model) {
+            continue;
+          }
+          const compatibilityResult = await this.validationService.validateEmbeddingCompatibility(
+            collection,
+            { provider: model.provider, modelName: model.model, vectorSize: params.size },
+            vectorName
+          );
+          if (!compatibilityResult.isValid) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatValidationError(
+                    vectorName ? `Embedding compatibility error for vector "${vectorName}"` : 'Embedding compatibility error',
+                    compatibilityResult
+                  ),
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+      }
+
+      const result = await this.transfer.importCollection({
+        filePath: args.filePath,
+        collection,
+        batchSize: args.batchSize,
+        signal: context.signal,
+        onProgress: (imported, total) => {
+          void progress.report(imported, total, `${imported}/${total} points`);
+        },
+      });
+
+      if (result.status === 'cancelled') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Cancelled importing into ${collection} after ${result.points} of ${header.points} points.\n` +
+                'Import the file again to complete it; points already imported are overwritten, not duplicated.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      let text = `Successfully imported ${result.points} points into ${result.created ? 'new collection ' : ''}${collection}` +
+        ` from ${args.filePath}`;
+      if (result.warnings.length > 0) {
+        text += '\n\nWarnings:\n' + result.warnings.join('\n');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error importing collection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDeleteCollection(args: DeleteCollectionArgs) {
+    try {
+      // Delete the collection and its recorded embedding configuration
+      await this.qdrantService.deleteCollection(args.collection);
+      await this.metadataStore.delete(args.collection);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully deleted collection: ${args.collection}`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting collection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Gathers statistics, configuration, embedding metadata and one page of indexed sources
+   */
+  private async buildCollectionInfo(collection: string, offset: number, limit: number) {
+    const details = await this.qdrantService.describeCollection(collection);
+    const embedding = await this.metadataStore.get(collection);
+    const sources = await this.listSources(collection, details.payloadIndexes);
+    if (!sources) {
+      return {
+        collection,
+        ...details,
+        embedding,
+        sources: {
+          available: false,
+          reason: 'The collection has no payload index on source, which listing sources needs',
+        },
+      };
+    }
+    const page = sources.slice(offset, offset + limit);
+
+    return {
+      collection,
+      ...details,
+      embedding,
+      sources: {
+        available: true,
+        total: sources.length,
+        // Counting stops at MAX_FACET_SOURCES distinct files
+        truncated: sources.length >= MAX_FACET_SOURCES,
+        offset,
+        limit,
+        nextOffset: offset + limit < sources.length ? offset + limit : null,
+        items: page.map(hit => ({ source: hit.value, chunks: hit.count })),
+      },
+    };
+  }
+
+  /**
+   * Lists the distinct sources of a collection with their chunk counts, sorted by path.
+   * Chunk counts come from the facet API, which needs a payload index on source; this
+   * read path never creates one, so collections without it have no source list.
+   * @param payloadIndexes Payload indexes of the collection, when already described
+   * @returns The sources, or null if the collection has no source index
+   */
+  private async listSources(
+    collection: string,
+    payloadIndexes?: CollectionDetails['payloadIndexes']
+  ): Promise<FacetHit[] | null> {
+    const indexes = payloadIndexes ?? (await this.qdrantService.describeCollection(collection)).payloadIndexes;
+    if (!('source' in indexes)) {
+      return null;
+    }
+    const hits = await this.qdrantService.facet(collection, 'source', { limit: MAX_FACET_SOURCES });
+    return hits.sort((a, b) => String(a.value).localeCompare(String(b.value)));
+  }
+
+  private async handleGetCollectionInfo(args: GetCollectionInfoArgs) {
+    try {
+      if (args.collection === METADATA_COLLECTION || !await this.qdrantService.collectionExists(args.collection)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Collection ${args.collection} does not exist`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const info = await this.buildCollectionInfo(
+        args.collection,
+        args.sourcesOffset ?? 0,
+        args.sourcesLimit ?? DEFAULT_SOURCES_PAGE_SIZE
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(info, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error getting collection info: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDeleteDocuments(args: DeleteDocumentsArgs) {
+    try {
+      // An empty filter would select the whole collection
+      const hasFilter = args.filter !== undefined && Object.values(args.filter)
+        .some(value => value !== undefined && !(Array.isArray(value) && value.length === 0));
+      if (args.ids === undefined && args.source === undefined && !hasFilter) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Nothing to delete: pass ids, source or filter. Use delete_collection to remove a whole collection.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (args.filter !== undefined) {
+        const filterValidation = validateSearchFilter(args.filter);
+        if (!filterValidation.isValid) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Invalid filter:\n${filterValidation.errors.map(error => `- ${error}`).join('\n')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      if (args.collection === METADATA_COLLECTION || !await this.qdrantService.collectionExists(args.collection)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Collection ${args.collection} does not exist`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // A dry run only reads, so it makes do with the payload indexes that already exist
+      let sourceIndexed = true;
+      if (args.dryRun) {
+        sourceIndexed = 'source' in (await this.qdrantService.describeCollection(args.collection)).payloadIndexes;
+      } else {
+        await this.qdrantService.ensurePayloadIndexes(args.collection);
+      }
+
+      // Combine every selector into one filter so counting and deleting agree
+      const selectors: QdrantFilter[] = [];
+      if (args.filter !== undefined) {
+        selectors.push(await this.filterBuilder.build(args.collection, args.filter));
+      }
+      if (args.source !== undefined) {
+        selectors.push(await this.filterBuilder.build(args.collection, { source: args.source }));
+      }
+      if (args.ids !== undefined) {
+        selectors.push({ must: [{ has_id: args.ids }] });
+      }
+      const filter: QdrantFilter = { must: selectors };
+
+      const count = await this.qdrantService.countPoints(args.collection, filter);
+      // Counting points per source needs a payload index on source
+      const sources = count > 0 && sourceIndexed
+        ? await this.qdrantService.facet(args.collection, 'source', { filter, limit: 50 })
+        : [];
+
+      if (!args.dryRun && count > 0) {
+        if (args.source === undefined && args.filter === undefined) {
+          await this.qdrantService.deletePoints(args.collection, args.ids!);
+        } else {
+          await this.qdrantService.deleteByFilter(args.collection, filter);
+        }
+      }
+
+      let responseText = args.dryRun
+        ? `Dry run: ${count} point(s) in collection ${args.collection} match and would be deleted.`
+        : `Deleted ${count} point(s) from collection ${args.collection}.`;
+      if (sources.length > 0) {
+        responseText += '\n\nSources:\n' + sources.map(hit => `- ${hit.value} (${hit.count} chunks)`).join('\n');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting documents: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Serves over the transport chosen by the command line flags or the environment
+   * @param flags Command line flags by name
+   */
+  async run(flags: Record<string, string>) {
+    // Command line flags override the environment
+    const options = resolveTransportOptions(flags, {
+      transport: process.env.MCP_TRANSPORT,
+      host: process.env.MCP_HTTP_HOST,
+      port: process.env.MCP_HTTP_PORT,
+      authTokens: process.env.MCP_AUTH_TOKEN,
+      corsOrigins: process.env.MCP_CORS_ORIGINS,
+      allowedHosts: process.env.MCP_ALLOWED_HOSTS,
+    });
+
+    if (options.type === 'stdio') {
+      const server = this.createSession();
+      await server.connect(new StdioServerTransport());
+      process.on('SIGINT', async () => {
+        await server.close();
+        process.exit(0);
+      });
+      console.error('Better Qdrant MCP server running on stdio');
+      return;
+    }
+
+    const httpServer = new McpHttpServer({
+      ...options,
+      createSession: () => this.createSession(),
+      health: async () => {
+        await this.qdrantService.listCollections();
+        return { qdrant: 'ok' };
+      },
+    });
+    const address = await httpServer.listen();
+    process.on('SIGINT', async () => {
+      await httpServer.close();
+      process.exit(0);
+    });
+
+    if (options.authTokens.length === 0 && !['127.0.0.1', 'localhost', '::1'].includes(options.host)) {
+      console.error(`Warning: listening on ${options.host} without authentication; set MCP_AUTH_TOKEN`);
+    }
+    const endpoint = options.type === 'http' ? MCP_PATH : SSE_PATH;
+    console.error(`Better Qdrant MCP server running on ${address}${endpoint} (${options.type})`);
+  }
+}
+
+async function main() {
+  const flags = parseCommandLine(process.argv.slice(2));
+  const serverConfig = loadServerConfig(flags.config ?? process.env.BETTER_QDRANT_CONFIG, process.env);
+  await new BetterQdrantServer(serverConfig).run(flags);
 }
 
-const server = new BetterQdrantServer();
-server.run().catch((error) => {
+main().catch((error) => {
   console.error('Server error:', error instanceof Error ? error.message : String(error));
   process.exit(1);
 });
@@ -0,0 +1,172 @@
+import { getEncodingNameForModel, Tiktoken, TiktokenBPE, TiktokenEncoding, TiktokenModel } from 'js-tiktoken/lite';
+
+export type ChunkingStrategy = 'auto' | 'recursive';
+export type ChunkUnit = 'characters' | 'tokens';
+
+/**
+ * Chunking settings of one ingestion request.
+ *
+ * Profiles are frozen once resolved, so a request can never change the
+ * settings another request is using.
+ */
+export interface ChunkingProfile {
+  readonly name: string;
+  // auto splits source code along symbols and everything else recursively;
+  // recursive splits every file by separators
+  readonly strategy: ChunkingStrategy;
+  readonly unit: ChunkUnit;
+  readonly size: number;
+  readonly overlap: number;
+  // Separators tried in order by the recursive strategy
+  readonly separators?: readonly string[];
+}
+
+export type ChunkingOverrides = Partial<Omit<ChunkingProfile, 'name'>>;
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['auto', 'recursive'];
+export const CHUNK_UNITS: ChunkUnit[] = ['characters', 'tokens'];
+
+export const DEFAULT_CHUNKING_PROFILE: ChunkingProfile = Object.freeze({
+  name: 'default',
+  strategy: 'auto',
+  unit: 'characters',
+  size: 1000,
+  overlap: 200,
+});
+
+/**
+ * Measures the length of a text in a profile's unit
+ */
+export type LengthFunction = (text: string) => number;
+
+// Encoding used for models tiktoken does not know, e.g. local Ollama models
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+// Encoders are expensive to build, so each encoding is loaded once
+const encoders = new Map<TiktokenEncoding, Promise<Tiktoken>>();
+
+/**
+ * Named chunking profiles, including the built-in "default" profile.
+ */
+export class ChunkingProfileRegistry {
+  private profiles = new Map<string, ChunkingProfile>();
+
+  /**
+   * @param definitions Profiles by name; omitted settings fall back to the default profile
+   * @param defaultName Profile used when a request does not name one
+   */
+  constructor(
+    definitions: Record<string, ChunkingOverrides> = {},
+    private defaultName: string = DEFAULT_CHUNKING_PROFILE.name
+  ) {
+    this.profiles.set(DEFAULT_CHUNKING_PROFILE.name, DEFAULT_CHUNKING_PROFILE);
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const profile = { ...DEFAULT_CHUNKING_PROFILE, ...definition, name };
+      const errors = validateChunkingProfile(profile);
+      if (errors.length > 0) {
+        throw new Error(`Invalid chunking profile "${name}": ${errors.join('; ')}`);
+      }
+      this.profiles.set(name, Object.freeze(profile));
+    }
+
+    if (!this.profiles.has(defaultName)) {
+      throw new Error(`Default chunking profile "${defaultName}" is not defined`);
+    }
+  }
+
+  get names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Resolves the profile of a request
+   * @param name Profile name, or the default profile when omitted
+   * @param overrides Settings given directly in the request
+   * @throws Error if the profile does not exist or the resulting settings are invalid
+   */
+  resolve(name?: string, overrides: ChunkingOverrides = {}): ChunkingProfile {
+    const base = this.profiles.get(name ?? this.defaultName);
+    if (!base) {
+      throw new Error(`Unknown chunking profile "${name}". Available profiles: ${this.names.join(', ')}`);
+    }
+
+    const defined = Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined)
+    );
+    const profile = { ...base, ...defined };
+    const errors = validateChunkingProfile(profile);
+    if (errors.length > 0) {
+      throw new Error(`Invalid chunking settings: ${errors.join('; ')}`);
+    }
+
+    return Object.freeze(profile);
+  }
+}
+
+/**
+ * Checks chunking settings
+ * @returns Error messages, empty when the settings are valid
+ */
+export function validateChunkingProfile(profile: ChunkingOverrides): string[] {
+  const errors: string[] = [];
+  const { strategy, unit, size, overlap, separators } = profile;
+
+  if (strategy !== undefined && !CHUNKING_STRATEGIES.includes(strategy)) {
+    errors.push(`strategy must be one of ${CHUNKING_STRATEGIES.join(', ')}`);
+  }
+  if (unit !== undefined && !CHUNK_UNITS.includes(unit)) {
+    errors.push(`unit must be one of ${CHUNK_UNITS.join(', ')}`);
+  }
+  if (size !== undefined && (!Number.isInteger(size) || size <= 0)) {
+    errors.push('size must be a positive integer');
+  }
+  if (overlap !== undefined && (!Number.isInteger(overlap) || overlap < 0)) {
+    errors.push('overlap must be a non-negative integer');
+  }
+  if (typeof size === 'number' && typeof overlap === 'number' && overlap >= size) {
+    errors.push('overlap must be smaller than size');
+  }
+  if (separators !== undefined &&
+      (!Array.isArray(separators) || !separators.every(separator => typeof separator === 'string'))) {
+    errors.push('separators must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Creates the length function of a profile. Token counts use the tokenizer of
+ * the embedding model when tiktoken knows it, and cl100k_base otherwise.
+ * @param profile Chunking profile
+ * @param model Embedding model name, e.g. "text-embedding-3-small" or "openai/text-embedding-3-small"
+ */
+export async function createLengthFunction(profile: ChunkingProfile, model: string): Promise<LengthFunction> {
+  if (profile.unit === 'characters') {
+    return text => text.length;
+  }
+
+  const encoder = await getEncoder(model);
+  return text => encoder.encode(text).length;
+}
+
+function getEncoder(model: string): Promise<Tiktoken> {
+  // OpenRouter model ids are prefixed with the vendor
+  const modelName = model.slice(model.lastIndexOf('/') + 1);
+
+  let encoding: TiktokenEncoding;
+  try {
+    encoding = getEncodingNameForModel(modelName as TiktokenModel);
+  } catch {
+    encoding = FALLBACK_ENCODING;
+  }
+
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // Rank files are large, so only the encoding in use is imported
+    encoder = import(`js-tiktoken/ranks/${encoding}`)
+      .then((ranks: { default: TiktokenBPE }) => new Tiktoken(ranks.default));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
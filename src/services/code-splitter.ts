@@ -0,0 +1,479 @@
+import { extname } from 'path';
+
+/**
+ * Patterns recognising the lines where a language declares functions, classes
+ * and similar symbols. Each pattern captures the symbol in the `name` group.
+ */
+interface LanguageSpec {
+  name: string;
+  extensions: string[];
+  patterns: RegExp[];
+  // Line prefixes of comments and decorators that belong to the declaration below them
+  leadingPrefixes: string[];
+  // How a declaration ends: with its closing brace, or with its indented body
+  blocks: 'braces' | 'indentation';
+}
+
+export interface CodeChunk {
+  text: string;
+  start: number;
+  end: number;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+}
+
+interface Boundary {
+  line: number;
+  indent: number;
+  name: string;
+  // Last line of the declaration
+  end: number;
+}
+
+interface Cut extends Boundary {
+  // Declaration line; `line` is moved above the comments and decorators of the declaration
+  header: number;
+}
+
+interface Segment {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  // Declaration line of the symbol the segment starts with
+  headerLine?: number;
+}
+
+const C_STYLE_COMMENTS = ['//', '/*', '*', '*/'];
+const JAVA_MODIFIERS = '(?:public|private|protected|internal|static|final|abstract|sealed|partial|synchronized|override|virtual|async|extern|unsafe|open|data|suspend|inline)';
+const CONTROL_KEYWORDS = '(?!(?:if|for|foreach|while|switch|catch|return|new|await|else|do|try|typeof|throw|using|lock|when)\\b)';
+
+const LANGUAGES: LanguageSpec[] = [
+  {
+    name: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    patterns: jsPatterns(),
+    leadingPrefixes: [...C_STYLE_COMMENTS, '@'],
+    blocks: 'braces',
+  },
+  {
+    name: 'javascript',
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    patterns: jsPatterns(),
+    leadingPrefixes: [...C_STYLE_COMMENTS, '@'],
+    blocks: 'braces',
+  },
+  {
+    name: 'python',
+    extensions: ['.py', '.pyi'],
+    patterns: [
+      /^\s*(?:async\s+)?def\s+(?<name>\w+)/,
+      /^\s*class\s+(?<name>\w+)/,
+    ],
+    leadingPrefixes: ['#', '@'],
+    blocks: 'indentation',
+  },
+  {
+    name: 'go',
+    extensions: ['.go'],
+    patterns: [
+      /^func\s+(?:\([^)]*\)\s*)?(?<name>\w+)/,
+      /^type\s+(?<name>\w+)\s+(?:struct|interface)\b/,
+    ],
+    leadingPrefixes: C_STYLE_COMMENTS,
+    blocks: 'braces',
+  },
+  {
+    name: 'java',
+    extensions: ['.java'],
+    patterns: javaLikePatterns(),
+    leadingPrefixes: [...C_STYLE_COMMENTS, '@'],
+    blocks: 'braces',
+  },
+  {
+    name: 'kotlin',
+    extensions: ['.kt', '.kts'],
+    patterns: [
+      ...javaLikePatterns(),
+      new RegExp(`^\\s*(?:${JAVA_MODIFIERS}\\s+)*fun\\s+(?:<[^>]*>\\s*)?(?:\\w+\\.)?(?<name>\\w+)`),
+    ],
+    leadingPrefixes: [...C_STYLE_COMMENTS, '@'],
+    blocks: 'braces',
+  },
+  {
+    name: 'csharp',
+    extensions: ['.cs'],
+    patterns: javaLikePatterns(),
+    leadingPrefixes: [...C_STYLE_COMMENTS, '['],
+    blocks: 'braces',
+  },
+  {
+    name: 'rust',
+    extensions: ['.rs'],
+    patterns: [
+      /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:const\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|impl|mod)\s+(?:<[^>]*>\s*)?(?<name>\w+)/,
+    ],
+    leadingPrefixes: [...C_STYLE_COMMENTS, '#['],
+    blocks: 'braces',
+  },
+  {
+    name: 'ruby',
+    extensions: ['.rb'],
+    patterns: [/^\s*(?:def|class|module)\s+(?:self\.)?(?<name>[\w:?!]+)/],
+    leadingPrefixes: ['#'],
+    blocks: 'indentation',
+  },
+  {
+    name: 'php',
+    extensions: ['.php'],
+    patterns: [
+      /^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*(?:function|class|interface|trait|enum)\s+(?<name>\w+)/,
+    ],
+    leadingPrefixes: [...C_STYLE_COMMENTS, '#'],
+    blocks: 'braces',
+  },
+  {
+    name: 'cpp',
+    extensions: ['.c', '.h', '.cc', '.cpp', '.cxx', '.hpp', '.hh'],
+    patterns: [
+      /^\s*(?:class|struct|namespace)\s+(?<name>\w+)[^;]*$/,
+      new RegExp(`^(?!\\s|#)${CONTROL_KEYWORDS}[\\w:*&<>,\\s]+?\\b(?<name>[A-Za-z_~][\\w:~]*)\\s*\\([^;]*$`),
+    ],
+    leadingPrefixes: C_STYLE_COMMENTS,
+    blocks: 'braces',
+  },
+];
+
+function jsPatterns(): RegExp[] {
+  return [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|namespace)\s+(?<name>[A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+(?<name>[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+    new RegExp(`^\\s+(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\\s+)*${CONTROL_KEYWORDS}(?<name>[A-Za-z_$#][\\w$]*)\\s*(?:<[^>]*>)?\\s*\\([^)]*\\)?\\s*(?::\\s*[^{;=]+)?\\{\\s*$`),
+  ];
+}
+
+function javaLikePatterns(): RegExp[] {
+  return [
+    new RegExp(`^\\s*(?:${JAVA_MODIFIERS}\\s+)*(?:class|interface|enum|record|struct|object)\\s+(?<name>\\w+)`),
+    new RegExp(`^\\s*(?:${JAVA_MODIFIERS}\\s+)+${CONTROL_KEYWORDS}[\\w<>\\[\\],.?\\s]*?\\b(?<name>\\w+)\\s*\\([^;]*$`),
+  ];
+}
+
+/**
+ * Detects the programming language of a file from its extension
+ * @returns Language name, or null for files that are not recognised as code
+ */
+export function detectLanguage(path: string): string | null {
+  const extension = extname(path).toLowerCase();
+  return LANGUAGES.find(language => language.extensions.includes(extension))?.name ?? null;
+}
+
+/**
+ * Splits source code into chunks along symbol boundaries.
+ *
+ * Top-level declarations become chunks of their own; declarations larger than
+ * maxSize are split at their nested declarations (e.g. class methods), and
+ * only code without any nested declaration is split by lines. Small adjacent
+ * pieces are merged back up to maxSize. Comments and decorators directly above
+ * a declaration stay with it.
+ * @param text Source code
+ * @param language Language name returned by detectLanguage
+ * @param maxSize Maximum chunk size, as measured by measure
+ * @param measure Length of a text, in characters unless given
+ */
+export function splitCode(
+  text: string,
+  language: string,
+  maxSize: number,
+  measure: (text: string) => number = text => text.length
+): CodeChunk[] {
+  const spec = LANGUAGES.find(l => l.name === language);
+  if (!spec) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+
+  const lines = text.split('\n');
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const boundaries = findBoundaries(lines, spec);
+  const size = (segment: Segment) =>
+    measure(text.slice(lineOffsets[segment.startLine], lineEnd(segment.endLine, lines, lineOffsets)));
+
+  const split = (segment: Segment): Segment[] => {
+    if (size(segment) <= maxSize) {
+      return [segment];
+    }
+
+    const first = Math.max(segment.startLine, segment.headerLine ?? -1);
+    const inner = boundaries.filter(b => b.line > first && b.line <= segment.endLine);
+    if (inner.length === 0) {
+      return splitByLines(segment, lines, maxSize, measure);
+    }
+
+    // Cut at the outermost nested declarations only
+    const minIndent = Math.min(...inner.map(b => b.indent));
+    const cuts = inner
+      .filter(b => b.indent === minIndent)
+      .map(b => ({ ...b, header: b.line, line: leadingStart(b.line, segment.startLine, lines, spec) }))
+      .filter(b => b.line > segment.startLine);
+
+    return mergeSmall(cutSegment(segment, cuts, lines).flatMap(split), size, maxSize, segment.symbol);
+  };
+
+  // The whole file is a segment; its top-level declarations are the first cuts
+  const file: Segment = { startLine: 0, endLine: lines.length - 1 };
+  const topLevel: Cut[] = [];
+  for (const boundary of boundaries.filter(b => b.indent === 0)) {
+    const floor = topLevel.length > 0 ? topLevel[topLevel.length - 1].line : 0;
+    topLevel.push({ ...boundary, header: boundary.line, line: leadingStart(boundary.line, floor, lines, spec) });
+  }
+
+  return mergeSmall(cutSegment(file, topLevel, lines).flatMap(split), size, maxSize, undefined)
+    .map(segment => {
+      const chunkStart = lineOffsets[segment.startLine];
+      const chunkEnd = lineEnd(segment.endLine, lines, lineOffsets);
+      return {
+        text: text.slice(chunkStart, chunkEnd),
+        start: chunkStart,
+        end: chunkEnd,
+        startLine: segment.startLine + 1,
+        endLine: segment.endLine + 1,
+        symbol: segment.symbol,
+      };
+    })
+    .filter(chunk => chunk.text.trim().length > 0);
+}
+
+function findBoundaries(lines: string[], spec: LanguageSpec): Boundary[] {
+  const boundaries: Boundary[] = [];
+
+  lines.forEach((line, index) => {
+    for (const pattern of spec.patterns) {
+      const match = line.match(pattern);
+      if (match?.groups?.name) {
+        boundaries.push({
+          line: index,
+          indent: indentOf(line),
+          name: match.groups.name,
+          end: declarationEnd(index, lines, spec),
+        });
+        return;
+      }
+    }
+  });
+
+  return boundaries;
+}
+
+/**
+ * Cuts a segment at declarations. Each declaration runs from its leading comments
+ * to its own last line; the code around them keeps the symbol of the segment.
+ */
+function cutSegment(segment: Segment, cuts: Cut[], lines: string[]): Segment[] {
+  const pieces: Segment[] = [];
+  let start = segment.startLine;
+  let headerLine = segment.headerLine;
+
+  cuts.forEach((cut, i) => {
+    if (cut.line > start) {
+      pieces.push({ startLine: start, endLine: cut.line - 1, symbol: segment.symbol, headerLine });
+    }
+    const next = i + 1 < cuts.length ? cuts[i + 1].line : segment.endLine + 1;
+    let end = Math.max(Math.min(cut.end, next - 1), cut.header);
+    // Blank lines after a declaration stay with it rather than becoming a piece of their own
+    while (end + 1 < next && lines[end + 1].trim().length === 0) {
+      end++;
+    }
+    pieces.push({ startLine: cut.line, endLine: end, symbol: qualify(segment.symbol, cut.name), headerLine: cut.header });
+    start = end + 1;
+    headerLine = undefined;
+  });
+  if (start <= segment.endLine) {
+    pieces.push({ startLine: start, endLine: segment.endLine, symbol: segment.symbol, headerLine });
+  }
+
+  return pieces;
+}
+
+/**
+ * Finds the last line of the declaration on a line: the line of its closing brace,
+ * or the last line of its indented body. Declarations without a body, such as type
+ * aliases or abstract methods, end with their statement.
+ */
+function declarationEnd(header: number, lines: string[], spec: LanguageSpec): number {
+  const indent = indentOf(lines[header]);
+  // Python and Ruby comments start with #, the braced languages use C comments
+  const lineComment = spec.blocks === 'indentation' ? '#' : '//';
+  const state = { inComment: false };
+  let brackets = 0;
+  let braces = 0;
+  let opened = false;
+  let end = header;
+
+  for (let i = header; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (spec.blocks === 'indentation' && i > header && brackets <= 0 && trimmed && indentOf(lines[i]) <= indent) {
+      // Ruby closes the declaration with an end at the indentation of its header
+      return trimmed === 'end' && indentOf(lines[i]) === indent ? i : end;
+    }
+
+    for (const char of codeOf(lines[i], state, lineComment)) {
+      if (char === '(' || char === '[') {
+        brackets++;
+      } else if (char === ')' || char === ']') {
+        brackets--;
+      } else if (spec.blocks === 'braces' && brackets <= 0 && char === '{') {
+        braces++;
+        opened = true;
+      } else if (spec.blocks === 'braces' && brackets <= 0 && char === '}') {
+        braces--;
+      } else if (char === '{') {
+        brackets++;
+      } else if (char === '}') {
+        brackets--;
+      }
+    }
+    if (trimmed) {
+      end = i;
+    }
+    if (spec.blocks === 'indentation' || brackets > 0) {
+      continue;
+    }
+
+    if (opened) {
+      if (braces <= 0) {
+        return i;
+      }
+      continue;
+    }
+    // Without a body the statement ends at a semicolon or where the next code is not indented below it
+    const next = lines.findIndex((line, j) => j > i && line.trim().length > 0);
+    if (trimmed.endsWith(';') || next === -1 || (indentOf(lines[next]) <= indent && !lines[next].trim().startsWith('{'))) {
+      return i;
+    }
+  }
+
+  return end;
+}
+
+/**
+ * Code of a line without string literals and comments, so that brackets in them
+ * are not counted. Block comments continue on the next lines through state.
+ */
+function codeOf(line: string, state: { inComment: boolean }, lineComment: string): string {
+  let code = '';
+  for (let i = 0; i < line.length; i++) {
+    if (state.inComment) {
+      if (line.startsWith('*/', i)) {
+        state.inComment = false;
+        i++;
+      }
+      continue;
+    }
+    if (line.startsWith(lineComment, i)) {
+      break;
+    }
+    if (lineComment === '//' && line.startsWith('/*', i)) {
+      state.inComment = true;
+      i++;
+      continue;
+    }
+    const char = line[i];
+    if (char === '"' || char === "'" || char === '`') {
+      // An unterminated literal runs to the end of the line
+      let j = i + 1;
+      while (j < line.length && line[j] !== char) {
+        j += line[j] === '\\' ? 2 : 1;
+      }
+      i = j;
+      continue;
+    }
+    code += char;
+  }
+  return code;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Moves a cut above the comments and decorators that precede a declaration
+ */
+function leadingStart(line: number, floor: number, lines: string[], spec: LanguageSpec): number {
+  let start = line;
+  while (start - 1 > floor) {
+    const previous = lines[start - 1].trim();
+    if (previous.length === 0 || !spec.leadingPrefixes.some(prefix => previous.startsWith(prefix))) {
+      break;
+    }
+    start--;
+  }
+  return start;
+}
+
+function splitByLines(
+  segment: Segment,
+  lines: string[],
+  maxSize: number,
+  measure: (text: string) => number
+): Segment[] {
+  const pieces: Segment[] = [];
+  let start = segment.startLine;
+  let size = 0;
+
+  for (let line = segment.startLine; line <= segment.endLine; line++) {
+    const lineSize = measure(lines[line] + '\n');
+    if (size > 0 && size + lineSize > maxSize) {
+      pieces.push({ startLine: start, endLine: line - 1, symbol: segment.symbol });
+      start = line;
+      size = 0;
+    }
+    size += lineSize;
+  }
+  pieces.push({ startLine: start, endLine: segment.endLine, symbol: segment.symbol });
+
+  return pieces;
+}
+
+/**
+ * Merges adjacent pieces while they fit in maxSize. A merged chunk spanning
+ * several symbols is attributed to their enclosing symbol.
+ */
+function mergeSmall(
+  pieces: Segment[],
+  size: (segment: Segment) => number,
+  maxSize: number,
+  parentSymbol: string | undefined
+): Segment[] {
+  const merged: Segment[] = [];
+
+  for (const piece of pieces) {
+    const last = merged[merged.length - 1];
+    const candidate = last && { startLine: last.startLine, endLine: piece.endLine };
+    if (candidate && size(candidate) <= maxSize) {
+      merged[merged.length - 1] = {
+        ...candidate,
+        symbol: last.symbol === piece.symbol ? last.symbol : parentSymbol,
+      };
+    } else {
+      merged.push(piece);
+    }
+  }
+
+  return merged;
+}
+
+function lineEnd(line: number, lines: string[], lineOffsets: number[]): number {
+  return lineOffsets[line] + lines[line].length;
+}
+
+function qualify(parent: string | undefined, name: string): string {
+  return parent ? `${parent}.${name}` : name;
+}
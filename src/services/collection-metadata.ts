@@ -0,0 +1,139 @@
+import { v5 as uuidv5 } from 'uuid';
+import { EmbeddingService, PointId, QdrantFilter, QdrantService } from '../types.js';
+
+/**
+ * Reserved collection holding one metadata point per user collection
+ */
+export const METADATA_COLLECTION = '_better_qdrant_metadata';
+
+// Namespace used to derive the metadata point id from a collection name
+const METADATA_ID_NAMESPACE = 'b3d7c2a1-9e4f-4a8b-8c6d-2f1e0a9b7c54';
+
+/**
+ * Embedding model filling one dense vector
+ */
+export interface VectorModelMetadata {
+  provider: EmbeddingService;
+  model: string;
+  vectorSize: number;
+  distance: string;
+}
+
+/**
+ * Progress of an unfinished reindex into a collection
+ */
+export interface ReindexCheckpoint {
+  // Collection the points are copied from
+  source: string;
+  // Scroll offset of the next source page; absent before the first page, null once every page was read
+  nextOffset?: PointId | null;
+  copied: number;
+  skipped: number;
+}
+
+/**
+ * Embedding configuration a collection was created with.
+ *
+ * Collections with named vectors list the model of each vector in `vectors`;
+ * the top-level fields then describe the first one, which searches use by default.
+ */
+export interface EmbeddingMetadata extends VectorModelMetadata {
+  createdAt: string;
+  vectors?: Record<string, VectorModelMetadata>;
+  reindex?: ReindexCheckpoint;
+}
+
+/**
+ * Gets the recorded model of one dense vector
+ * @param metadata Recorded collection metadata
+ * @param vectorName Vector name; "" for the unnamed vector
+ */
+export function vectorModel(metadata: EmbeddingMetadata, vectorName: string): VectorModelMetadata | null {
+  if (metadata.vectors) {
+    return metadata.vectors[vectorName] ?? null;
+  }
+  return vectorName === '' ? metadata : null;
+}
+
+/**
+ * Name of the vector searched when a request names none: the first named vector, or the unnamed one
+ */
+export function defaultVectorName(metadata: EmbeddingMetadata | null): string {
+  return Object.keys(metadata?.vectors ?? {})[0] ?? '';
+}
+
+/**
+ * Stores the embedding provider, model, dimension and distance used to build each collection.
+ *
+ * Qdrant collections have no free-form metadata, so records live as points in a
+ * small reserved collection keyed by collection name. This keeps user collections
+ * free of extra points that searches and scrolls would have to skip.
+ */
+export class CollectionMetadataStore {
+  constructor(private qdrantService: QdrantService) {}
+
+  /**
+   * Gets the recorded embedding configuration of a collection
+   * @param collection Collection name
+   * @returns Recorded metadata or null if none was recorded
+   */
+  async get(collection: string): Promise<EmbeddingMetadata | null> {
+    if (!await this.qdrantService.collectionExists(METADATA_COLLECTION)) {
+      return null;
+    }
+
+    const page = await this.qdrantService.scroll(METADATA_COLLECTION, {
+      filter: this.pointFilter(collection),
+      limit: 1,
+    });
+    const payload = page.points[0]?.payload;
+    if (!payload || typeof payload.provider !== 'string' || typeof payload.model !== 'string') {
+      return null;
+    }
+
+    return {
+      provider: payload.provider as EmbeddingService,
+      model: payload.model,
+      vectorSize: payload.vectorSize,
+      distance: payload.distance,
+      createdAt: payload.createdAt,
+      ...(payload.vectors && typeof payload.vectors === 'object' ? { vectors: payload.vectors } : {}),
+      ...(payload.reindex && typeof payload.reindex === 'object' ? { reindex: payload.reindex } : {}),
+    };
+  }
+
+  /**
+   * Records the embedding configuration of a collection, replacing any previous record
+   * @param collection Collection name
+   * @param metadata Embedding configuration
+   */
+  async set(collection: string, metadata: EmbeddingMetadata): Promise<void> {
+    if (!await this.qdrantService.collectionExists(METADATA_COLLECTION)) {
+      await this.qdrantService.createCollection(METADATA_COLLECTION, 1);
+    }
+
+    await this.qdrantService.addDocuments(METADATA_COLLECTION, [{
+      id: this.pointId(collection),
+      vector: [1],
+      payload: { collection, ...metadata },
+    }]);
+  }
+
+  /**
+   * Removes the record of a collection
+   * @param collection Collection name
+   */
+  async delete(collection: string): Promise<void> {
+    if (await this.qdrantService.collectionExists(METADATA_COLLECTION)) {
+      await this.qdrantService.deleteByFilter(METADATA_COLLECTION, this.pointFilter(collection));
+    }
+  }
+
+  private pointId(collection: string): string {
+    return uuidv5(collection, METADATA_ID_NAMESPACE);
+  }
+
+  private pointFilter(collection: string): QdrantFilter {
+    return { must: [{ has_id: [this.pointId(collection)] }] };
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  CollectionOptions,
+  Distance,
+  ProductCompression,
+  QuantizationType,
+} from '../types.js';
+
+export const DISTANCES: Distance[] = ['Cosine', 'Euclid', 'Dot'];
+
+const QUANTIZATION_TYPES: QuantizationType[] = ['scalar', 'binary', 'product'];
+const PRODUCT_COMPRESSIONS: ProductCompression[] = ['x4', 'x8', 'x16', 'x32', 'x64'];
+
+/**
+ * Tool arguments holding collection settings, applied when a collection is created
+ */
+export const COLLECTION_OPTION_KEYS = [
+  'distance',
+  'hnsw',
+  'quantization',
+  'onDiskVectors',
+  'onDiskPayload',
+  'shardNumber',
+  'replicationFactor',
+] as const;
+
+/**
+ * JSON schema properties of the collection settings, shared by the tools that create collections
+ */
+export const COLLECTION_OPTIONS_SCHEMA = {
+  distance: {
+    type: 'string',
+    enum: DISTANCES,
+    description: 'Vector distance metric (default: Cosine)',
+  },
+  hnsw: {
+    type: 'object',
+    description: 'HNSW index settings (default: Qdrant defaults)',
+    properties: {
+      m: { type: 'integer', description: 'Edges per node; higher improves recall and uses more memory' },
+      efConstruct: { type: 'integer', description: 'Neighbours considered while building the index' },
+      onDisk: { type: 'boolean', description: 'Store the index on disk' },
+    },
+  },
+  quantization: {
+    type: 'object',
+    description: 'Vector quantization, trading accuracy for memory and speed',
+    properties: {
+      type: { type: 'string', enum: QUANTIZATION_TYPES },
+      quantile: { type: 'number', description: 'Scalar only: quantile kept in range, between 0.5 and 1' },
+      compression: { type: 'string', enum: PRODUCT_COMPRESSIONS, description: 'Product only (default: x16)' },
+      alwaysRam: { type: 'boolean', description: 'Keep quantized vectors in memory' },
+    },
+    required: ['type'],
+  },
+  onDiskVectors: {
+    type: 'boolean',
+    description: 'Store original vectors on disk instead of in memory',
+  },
+  onDiskPayload: {
+    type: 'boolean',
+    description: 'Store payloads on disk instead of in memory',
+  },
+  shardNumber: {
+    type: 'integer',
+    description: 'Number of shards (default: 1)',
+  },
+  replicationFactor: {
+    type: 'integer',
+    description: 'Copies of each shard in a cluster (default: 1)',
+  },
+};
+
+/**
+ * Validates the collection settings of tool arguments
+ * @param args Untrusted tool arguments
+ * @returns Every problem found, empty when the settings are valid
+ */
+export function validateCollectionOptions(args: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  if (args.distance !== undefined && !DISTANCES.includes(args.distance as Distance)) {
+    errors.push(`distance must be one of ${DISTANCES.join(', ')}`);
+  }
+
+  if (args.hnsw !== undefined) {
+    const hnsw = args.hnsw as Record<string, unknown> | null;
+    if (!hnsw || typeof hnsw !== 'object' || Array.isArray(hnsw)) {
+      errors.push('hnsw must be an object');
+    } else {
+      if (hnsw.m !== undefined && !(Number.isInteger(hnsw.m) && (hnsw.m as number) >= 0)) {
+        errors.push('hnsw.m must be a non-negative integer (0 disables the index)');
+      }
+      if (hnsw.efConstruct !== undefined && !(Number.isInteger(hnsw.efConstruct) && (hnsw.efConstruct as number) >= 4)) {
+        errors.push('hnsw.efConstruct must be an integer of at least 4');
+      }
+      if (hnsw.onDisk !== undefined && typeof hnsw.onDisk !== 'boolean') {
+        errors.push('hnsw.onDisk must be a boolean');
+      }
+    }
+  }
+
+  if (args.quantization !== undefined) {
+    const quantization = args.quantization as Record<string, unknown> | null;
+    if (!quantization || typeof quantization !== 'object' || Array.isArray(quantization)) {
+      errors.push('quantization must be an object');
+    } else {
+      if (!QUANTIZATION_TYPES.includes(quantization.type as QuantizationType)) {
+        errors.push(`quantization.type must be one of ${QUANTIZATION_TYPES.join(', ')}`);
+      }
+      if (quantization.quantile !== undefined) {
+        if (quantization.type !== 'scalar') {
+          errors.push('quantization.quantile only applies to scalar quantization');
+        } else if (typeof quantization.quantile !== 'number' || quantization.quantile < 0.5 || quantization.quantile > 1) {
+          errors.push('quantization.quantile must be a number between 0.5 and 1');
+        }
+      }
+      if (quantization.compression !== undefined) {
+        if (quantization.type !== 'product') {
+          errors.push('quantization.compression only applies to product quantization');
+        } else if (!PRODUCT_COMPRESSIONS.includes(quantization.compression as ProductCompression)) {
+          errors.push(`quantization.compression must be one of ${PRODUCT_COMPRESSIONS.join(', ')}`);
+        }
+      }
+      if (quantization.alwaysRam !== undefined && typeof quantization.alwaysRam !== 'boolean') {
+        errors.push('quantization.alwaysRam must be a boolean');
+      }
+    }
+  }
+
+  for (const key of ['onDiskVectors', 'onDiskPayload'] as const) {
+    if (args[key] !== undefined && typeof args[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+  for (const key of ['shardNumber', 'replicationFactor'] as const) {
+    if (args[key] !== undefined && !isPositiveInteger(args[key])) {
+      errors.push(`${key} must be a positive integer`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Picks the collection settings given in tool arguments
+ * @param args Tool arguments that passed validateCollectionOptions
+ */
+export function pickCollectionOptions(args: object): CollectionOptions {
+  return Object.fromEntries(
+    Object.entries(args).filter(([key, value]) =>
+      (COLLECTION_OPTION_KEYS as readonly string[]).includes(key) && value !== undefined
+    )
+  ) as CollectionOptions;
+}
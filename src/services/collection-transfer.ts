@@ -0,0 +1,391 @@
+import { createReadStream, createWriteStream, existsSync, unlinkSync } from 'fs';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { Distance, NamedVectors, PointId, QdrantService, VectorParams } from '../types.js';
+import { CollectionMetadataStore, EmbeddingMetadata } from './collection-metadata.js';
+import { DISTANCES } from './collection-options.js';
+import { OperationCancelledError, throwIfCancelled } from './progress.js';
+import { Bm25Encoder, SPARSE_VECTOR_NAME } from './sparse.js';
+import { VectorValidationService } from './validation.js';
+
+export const EXPORT_FORMAT = 'better-qdrant-export';
+export const EXPORT_VERSION = 1;
+export const DEFAULT_TRANSFER_BATCH_SIZE = 256;
+
+/**
+ * First line of an export file, describing the exported collection
+ */
+export interface ExportHeader {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  collection: string;
+  exportedAt: string;
+  // Dense vectors by name; the unnamed vector is keyed by ""
+  vectors: Record<string, VectorParams>;
+  sparseVectors: string[];
+  // Embedding models recorded for the collection, null if none were
+  metadata: EmbeddingMetadata | null;
+  // Points in the collection when the export started
+  points: number;
+}
+
+/**
+ * One line per point after the header
+ */
+export interface ExportedPoint {
+  // UUID string or unsigned integer
+  id: PointId;
+  // The unnamed vector, or every named vector of the point
+  vector: number[] | NamedVectors;
+  payload: Record<string, any>;
+}
+
+export interface ExportRequest {
+  collection: string;
+  filePath: string;
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (exported: number, total: number) => void;
+}
+
+export interface ExportResult {
+  status: 'completed' | 'cancelled';
+  points: number;
+  gzip: boolean;
+}
+
+export interface ImportRequest {
+  filePath: string;
+  // Collection to import into; defaults to the exported collection's name
+  collection?: string;
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (imported: number, total: number) => void;
+}
+
+export interface ImportResult {
+  status: 'completed' | 'cancelled';
+  collection: string;
+  created: boolean;
+  points: number;
+  warnings: string[];
+}
+
+/**
+ * Whether a file is gzip compressed, judging by its extension
+ */
+export function isGzipPath(filePath: string): boolean {
+  return filePath.endsWith('.gz');
+}
+
+/**
+ * Validates the header line of an export file
+ * @returns Every problem found, empty when the header is valid
+ */
+export function validateExportHeader(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['header must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const h = value as Record<string, unknown>;
+  if (h.format !== EXPORT_FORMAT) {
+    return [`not a ${EXPORT_FORMAT} file`];
+  }
+  if (h.version !== EXPORT_VERSION) {
+    errors.push(`unsupported version ${h.version}, expected ${EXPORT_VERSION}`);
+  }
+  if (typeof h.collection !== 'string') {
+    errors.push('collection must be a string');
+  }
+
+  const vectors = h.vectors as Record<string, Record<string, unknown>> | undefined;
+  if (!vectors || typeof vectors !== 'object' || Object.keys(vectors).length === 0) {
+    errors.push('vectors must describe at least one vector');
+  } else {
+    for (const [name, params] of Object.entries(vectors)) {
+      if (!Number.isInteger(params?.size) || (params.size as number) < 1) {
+        errors.push(`vectors["${name}"].size must be a positive integer`);
+      }
+      if (!DISTANCES.includes(params?.distance as Distance)) {
+        errors.push(`vectors["${name}"].distance must be one of ${DISTANCES.join(', ')}`);
+      }
+    }
+  }
+  if (!Array.isArray(h.sparseVectors)) {
+    errors.push('sparseVectors must be an array');
+  }
+  if (h.metadata !== null && (typeof h.metadata !== 'object' || Array.isArray(h.metadata))) {
+    errors.push('metadata must be an object or null');
+  }
+
+  return errors;
+}
+
+/**
+ * Reads and validates the header of an export file
+ * @throws Error if the file is empty or its header is invalid
+ */
+export async function readExportHeader(filePath: string): Promise<ExportHeader> {
+  const lines = readLines(filePath);
+  try {
+    for await (const line of lines) {
+      return parseHeader(line);
+    }
+    throw new Error(`${filePath} is empty`);
+  } finally {
+    lines.close();
+  }
+}
+
+function readLines(filePath: string) {
+  const input = createReadStream(filePath);
+  const lines = createInterface({
+    input: isGzipPath(filePath) ? input.pipe(createGunzip()) : input,
+    crlfDelay: Infinity,
+  });
+  lines.on('close', () => input.destroy());
+  return lines;
+}
+
+function parseHeader(line: string): ExportHeader {
+  let header: unknown;
+  try {
+    header = JSON.parse(line);
+  } catch (error) {
+    throw new Error(`Line 1 is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const errors = validateExportHeader(header);
+  if (errors.length > 0) {
+    throw new Error(`Invalid export header: ${errors.join('; ')}`);
+  }
+  return header as ExportHeader;
+}
+
+/**
+ * Moves collections between Qdrant instances through JSONL files, optionally gzip
+ * compressed, without computing embeddings again.
+ *
+ * The first line of a file is an ExportHeader with the vector configuration and
+ * recorded embedding models; every other line is an ExportedPoint. BM25 sparse
+ * vectors are not exported, as they are recomputed from the point text on import.
+ */
+export class CollectionTransfer {
+  private sparseEncoder = new Bm25Encoder();
+
+  constructor(
+    private qdrantService: QdrantService,
+    private validationService: VectorValidationService,
+    private metadataStore: CollectionMetadataStore
+  ) {}
+
+  /**
+   * Writes every point of a collection to a file. A cancelled or failed export
+   * removes the partial file.
+   */
+  async exportCollection(request: ExportRequest): Promise<ExportResult> {
+    const { collection, filePath, signal, onProgress } = request;
+    const batchSize = request.batchSize ?? DEFAULT_TRANSFER_BATCH_SIZE;
+    const gzip = isGzipPath(filePath);
+
+    const info = await this.qdrantService.getCollectionInfo(collection);
+    if (!info) {
+      throw new Error(`Could not retrieve information for collection ${collection}`);
+    }
+    const recorded = await this.metadataStore.get(collection);
+    const { reindex: _checkpoint, ...metadata } = recorded ?? {};
+    const total = await this.qdrantService.countPoints(collection);
+    const unnamed = Object.keys(info.vectors).length === 1 && info.vectors[''] !== undefined;
+
+    const header: ExportHeader = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      collection,
+      exportedAt: new Date().toISOString(),
+      vectors: info.vectors,
+      sparseVectors: info.sparseVectors,
+      metadata: recorded ? metadata as EmbeddingMetadata : null,
+      points: total,
+    };
+
+    const qdrantService = this.qdrantService;
+    let exported = 0;
+    async function* lines() {
+      yield JSON.stringify(header) + '\n';
+      let offset: string | number | undefined;
+      do {
+        throwIfCancelled(signal);
+        const page = await qdrantService.scroll(collection, { limit: batchSize, offset, withVector: true });
+        let chunk = '';
+        for (const point of page.points) {
+          const vectors = point.vectors ?? {};
+          const line: ExportedPoint = {
+            id: point.id,
+            vector: unnamed ? vectors[''] ?? [] : vectors,
+            payload: point.payload,
+          };
+          chunk += JSON.stringify(line) + '\n';
+        }
+        yield chunk;
+        exported += page.points.length;
+        onProgress?.(exported, total);
+        offset = page.nextOffset ?? undefined;
+      } while (offset !== undefined);
+    }
+
+    try {
+      const input = Readable.from(lines());
+      const output = createWriteStream(filePath);
+      await (gzip ? pipeline(input, createGzip(), output) : pipeline(input, output));
+    } catch (error) {
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+      if (error instanceof OperationCancelledError) {
+        return { status: 'cancelled', points: exported, gzip };
+      }
+      throw error;
+    }
+
+    return { status: 'completed', points: exported, gzip };
+  }
+
+  /**
+   * Upserts the points of an export file into a collection in batches, creating the
+   * collection with the exported vector configuration and embedding models if needed.
+   *
+   * Point ids are kept, so importing again, e.g. after a cancellation, overwrites
+   * the points already imported. Every batch is validated before it is written.
+   * @throws Error if a line is invalid or its vectors do not fit the collection
+   */
+  async importCollection(request: ImportRequest): Promise<ImportResult> {
+    const { filePath, signal, onProgress } = request;
+    const batchSize = request.batchSize ?? DEFAULT_TRANSFER_BATCH_SIZE;
+    const lines = readLines(filePath);
+
+    try {
+      const iterator = lines[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      if (first.done) {
+        throw new Error(`${filePath} is empty`);
+      }
+      const header = parseHeader(first.value);
+      const collection = request.collection ?? header.collection;
+
+      const created = !await this.qdrantService.collectionExists(collection);
+      if (created) {
+        await this.createFromHeader(collection, header);
+      }
+      const info = await this.qdrantService.getCollectionInfo(collection);
+      if (!info) {
+        throw new Error(`Could not retrieve information for collection ${collection}`);
+      }
+      const sparse = info.sparseVectors.includes(SPARSE_VECTOR_NAME);
+      const unnamed = Object.keys(info.vectors).length === 1 && info.vectors[''] !== undefined;
+
+      const warnings: string[] = [];
+      let points = 0;
+      let lineNumber = 1;
+      let batch: ExportedPoint[] = [];
+      let batchStart = 2;
+
+      const flush = async () => {
+        if (batch.length === 0) {
+          return;
+        }
+        const lineRange = `lines ${batchStart}-${lineNumber}`;
+        const vectors = batch.map(point => Array.isArray(point.vector) ? { '': point.vector } : point.vector);
+        for (const [name, params] of Object.entries(info.vectors)) {
+          const vectorValidation = this.validationService.validateVectorData(
+            vectors.map(vector => vector[name]),
+            params.size
+          );
+          if (!vectorValidation.isValid) {
+            const label = name ? ` for vector "${name}"` : '';
+            throw new Error(`Vector validation failed${label} in ${lineRange}: ${vectorValidation.errors.join('; ')}`);
+          }
+          warnings.push(...vectorValidation.warnings.map(warning => `${lineRange}: ${warning}`));
+        }
+
+        // Last point at which cancelling leaves the batch unwritten
+        throwIfCancelled(signal);
+        await this.qdrantService.addDocuments(collection, batch.map((point, i) => {
+          const text = point.payload.text ?? point.payload.content;
+          return {
+            id: point.id,
+            vector: unnamed ? vectors[i][''] : vectors[i],
+            sparseVector: sparse && typeof text === 'string' ? this.sparseEncoder.encodeDocument(text) : undefined,
+            payload: point.payload,
+          };
+        }));
+        points += batch.length;
+        onProgress?.(points, header.points);
+        batch = [];
+        batchStart = lineNumber + 1;
+      };
+
+      try {
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          lineNumber++;
+          if (next.value.trim() === '') {
+            continue;
+          }
+          batch.push(parsePoint(next.value, lineNumber));
+          if (batch.length >= batchSize) {
+            throwIfCancelled(signal);
+            await flush();
+          }
+        }
+        await flush();
+      } catch (error) {
+        if (error instanceof OperationCancelledError) {
+          return { status: 'cancelled', collection, created, points, warnings };
+        }
+        throw error;
+      }
+
+      return { status: 'completed', collection, created, points, warnings };
+    } finally {
+      lines.close();
+    }
+  }
+
+  private async createFromHeader(collection: string, header: ExportHeader): Promise<void> {
+    const entries = Object.entries(header.vectors);
+    const unnamed = entries.length === 1 && entries[0][0] === '';
+    await this.qdrantService.createCollection(
+      collection,
+      unnamed ? entries[0][1].size : Object.fromEntries(entries.map(([name, params]) => [name, params.size])),
+      {
+        distance: entries[0][1].distance as Distance,
+        onDiskVectors: entries[0][1].onDisk,
+        sparse: header.sparseVectors.includes(SPARSE_VECTOR_NAME),
+      }
+    );
+    if (header.metadata) {
+      await this.metadataStore.set(collection, header.metadata);
+    }
+  }
+}
+
+function parsePoint(line: string, lineNumber: number): ExportedPoint {
+  let point: Partial<ExportedPoint>;
+  try {
+    point = JSON.parse(line);
+  } catch (error) {
+    throw new Error(`Line ${lineNumber} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const id = point?.id;
+  if (!(typeof id === 'string' || (typeof id === 'number' && Number.isInteger(id) && id >= 0))) {
+    throw new Error(`Line ${lineNumber}: id must be a UUID string or an unsigned integer`);
+  }
+  if (!point.vector || typeof point.vector !== 'object') {
+    throw new Error(`Line ${lineNumber}: vector must be an array or an object of named vectors`);
+  }
+  if (!point.payload || typeof point.payload !== 'object' || Array.isArray(point.payload)) {
+    throw new Error(`Line ${lineNumber}: payload must be an object`);
+  }
+  return point as ExportedPoint;
+}
@@ -0,0 +1,345 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import {
+  CollectionDefaults,
+  EmbeddingService,
+  EmbeddingServiceConfig,
+  RerankerService,
+  ServerConfig,
+} from '../types.js';
+import { ChunkingOverrides, DEFAULT_CHUNKING_PROFILE, validateChunkingProfile } from './chunking.js';
+import { COLLECTION_OPTION_KEYS, validateCollectionOptions } from './collection-options.js';
+
+export const EMBEDDING_PROVIDERS: EmbeddingService[] = ['openai', 'openrouter', 'fastembed', 'ollama'];
+const RERANKER_PROVIDERS: RerankerService[] = ['fastembed', 'tei', 'cohere'];
+
+const CONFIG_DIRECTORY = join(homedir(), '.config', 'better-qdrant-mcp');
+
+// Files looked for when no config file is given
+export const DEFAULT_CONFIG_PATHS = ['config.yaml', 'config.yml', 'config.json'].map(file => join(CONFIG_DIRECTORY, file));
+
+// Command line flags of the server; each takes a value
+const FLAGS = ['config', 'transport', 'host', 'port', 'auth-token', 'cors-origin', 'allowed-host'];
+
+const EMBEDDING_PROFILE_KEYS = ['provider', 'model', 'endpoint', 'apiKey', 'apiKeyEnv'];
+const COLLECTION_DEFAULT_KEYS = ['embeddingProfile', 'chunkingProfile', 'hybrid', ...COLLECTION_OPTION_KEYS];
+const CHUNKING_PROFILE_KEYS = ['strategy', 'unit', 'size', 'overlap', 'separators'];
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Reads `--flag value` and `--flag=value` command line flags
+ * @throws Error if a flag is unknown or has no value
+ */
+export function parseCommandLine(argv: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([\w-]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    if (!FLAGS.includes(match[1])) {
+      throw new Error(`Unknown option: --${match[1]}; options are ${FLAGS.map(flag => `--${flag}`).join(', ')}`);
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${match[1]}`);
+    }
+    flags[match[1]] = value;
+  }
+  return flags;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that a config value is an object with known keys only
+ * @returns Whether the value is an object
+ */
+function checkObject(value: unknown, path: string, keys: string[] | null, errors: string[]): value is Record<string, unknown> {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  for (const key of Object.keys(value)) {
+    if (keys && !keys.includes(key)) {
+      errors.push(`${path ? `${path}.` : ''}${key} is not a known setting; expected one of ${keys.join(', ')}`);
+    }
+  }
+  return true;
+}
+
+function checkString(value: unknown, path: string, errors: string[]): void {
+  if (value !== undefined && typeof value !== 'string') {
+    errors.push(`${path} must be a string`);
+  }
+}
+
+/**
+ * Validates the content of a config file
+ * @returns Every problem found, each starting with the key path, empty when the file is valid
+ */
+export function validateConfigFile(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!checkObject(value, '', ['qdrant', 'embedding', 'collections', 'chunking', 'reranker', 'prompts'], errors)) {
+    return ['the config must be an object of settings'];
+  }
+
+  if (value.qdrant !== undefined && checkObject(value.qdrant, 'qdrant', ['url', 'apiKey', 'apiKeyEnv'], errors)) {
+    for (const key of ['url', 'apiKey', 'apiKeyEnv']) {
+      checkString(value.qdrant[key], `qdrant.${key}`, errors);
+    }
+  }
+
+  if (value.embedding !== undefined &&
+      checkObject(value.embedding, 'embedding', ['defaultProfile', 'profiles', 'cache'], errors)) {
+    const { defaultProfile, profiles, cache } = value.embedding;
+    checkString(defaultProfile, 'embedding.defaultProfile', errors);
+    if (profiles !== undefined && checkObject(profiles, 'embedding.profiles', null, errors)) {
+      for (const [name, profile] of Object.entries(profiles)) {
+        const path = `embedding.profiles.${name}`;
+        if (!checkObject(profile, path, EMBEDDING_PROFILE_KEYS, errors)) {
+          continue;
+        }
+        if (EMBEDDING_PROVIDERS.includes(name as EmbeddingService) && profile.provider === undefined) {
+          // Profiles named after a provider default to it
+        } else if (!EMBEDDING_PROVIDERS.includes(profile.provider as EmbeddingService)) {
+          errors.push(`${path}.provider must be one of ${EMBEDDING_PROVIDERS.join(', ')}`);
+        } else if (EMBEDDING_PROVIDERS.includes(name as EmbeddingService) && profile.provider !== name) {
+          errors.push(`${path}.provider must be ${name}, as the profile is named after that provider`);
+        }
+        for (const key of ['model', 'endpoint', 'apiKey', 'apiKeyEnv']) {
+          checkString(profile[key], `${path}.${key}`, errors);
+        }
+      }
+    }
+    if (cache !== undefined && checkObject(cache, 'embedding.cache', ['enabled', 'directory', 'maxMb'], errors)) {
+      if (cache.enabled !== undefined && typeof cache.enabled !== 'boolean') {
+        errors.push('embedding.cache.enabled must be a boolean');
+      }
+      checkString(cache.directory, 'embedding.cache.directory', errors);
+      if (cache.maxMb !== undefined && !(typeof cache.maxMb === 'number' && cache.maxMb > 0)) {
+        errors.push('embedding.cache.maxMb must be a positive number');
+      }
+    }
+  }
+
+  if (value.collections !== undefined && checkObject(value.collections, 'collections', null, errors)) {
+    for (const [name, defaults] of Object.entries(value.collections)) {
+      const path = `collections.${name}`;
+      if (!checkObject(defaults, path, COLLECTION_DEFAULT_KEYS, errors)) {
+        continue;
+      }
+      checkString(defaults.embeddingProfile, `${path}.embeddingProfile`, errors);
+      checkString(defaults.chunkingProfile, `${path}.chunkingProfile`, errors);
+      if (defaults.hybrid !== undefined && typeof defaults.hybrid !== 'boolean') {
+        errors.push(`${path}.hybrid must be a boolean`);
+      }
+      errors.push(...validateCollectionOptions(defaults).map(error => `${path}.${error}`));
+    }
+  }
+
+  if (value.chunking !== undefined && checkObject(value.chunking, 'chunking', ['defaultProfile', 'profiles'], errors)) {
+    checkString(value.chunking.defaultProfile, 'chunking.defaultProfile', errors);
+    if (value.chunking.profiles !== undefined && checkObject(value.chunking.profiles, 'chunking.profiles', null, errors)) {
+      for (const [name, profile] of Object.entries(value.chunking.profiles)) {
+        const path = `chunking.profiles.${name}`;
+        if (checkObject(profile, path, CHUNKING_PROFILE_KEYS, errors)) {
+          errors.push(...validateChunkingProfile({ ...DEFAULT_CHUNKING_PROFILE, ...profile }).map(error => `${path}.${error}`));
+        }
+      }
+    }
+  }
+
+  if (value.reranker !== undefined &&
+      checkObject(value.reranker, 'reranker', ['provider', 'model', 'endpoint', 'apiKey', 'apiKeyEnv', 'cacheDir'], errors)) {
+    if (value.reranker.provider !== undefined && !RERANKER_PROVIDERS.includes(value.reranker.provider as RerankerService)) {
+      errors.push(`reranker.provider must be one of ${RERANKER_PROVIDERS.join(', ')}`);
+    }
+    for (const key of ['model', 'endpoint', 'apiKey', 'apiKeyEnv', 'cacheDir']) {
+      checkString(value.reranker[key], `reranker.${key}`, errors);
+    }
+  }
+
+  if (value.prompts !== undefined && checkObject(value.prompts, 'prompts', ['directory'], errors)) {
+    checkString(value.prompts.directory, 'prompts.directory', errors);
+  }
+
+  return errors;
+}
+
+/**
+ * Reads a JSON or YAML config file, by extension
+ * @throws Error naming the file if it cannot be read or parsed
+ */
+export function readConfigFile(path: string): unknown {
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+  const content = readFileSync(path, 'utf8');
+  const json = extname(path).toLowerCase() === '.json';
+  try {
+    return json ? JSON.parse(content) : parseYaml(content) ?? {};
+  } catch (error) {
+    throw new Error(`Config file ${path} is not valid ${json ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * A secret given directly or as the name of the environment variable holding it
+ */
+function secret(settings: Record<string, any> | undefined, env: Env): string | undefined {
+  return settings?.apiKey ?? (settings?.apiKeyEnv ? env[settings.apiKeyEnv] : undefined);
+}
+
+/**
+ * Builds the server configuration from a validated config file and the environment.
+ *
+ * Environment variables override the file: QDRANT_URL and QDRANT_API_KEY,
+ * DEFAULT_EMBEDDING_SERVICE, <PROVIDER>_API_KEY, <PROVIDER>_ENDPOINT and
+ * <PROVIDER>_MODEL for the profile named after each provider, EMBEDDING_CACHE*,
+ * CHUNKING_PROFILES and DEFAULT_CHUNKING_PROFILE, RERANKER_* and PROMPTS_DIR.
+ * Other profiles of a provider fall back to its API key and endpoint variables.
+ * @param file Content of the config file, already validated
+ * @throws Error listing every invalid setting, by key path or variable name
+ */
+export function resolveServerConfig(file: Record<string, any>, env: Env): ServerConfig {
+  const errors: string[] = [];
+
+  const profiles: Record<string, EmbeddingServiceConfig> = {};
+  for (const [name, profile] of Object.entries<Record<string, any>>(file.embedding?.profiles ?? {})) {
+    const type: EmbeddingService = profile.provider ?? name;
+    const prefix = type.toUpperCase();
+    profiles[name] = {
+      type,
+      apiKey: secret(profile, env) ?? env[`${prefix}_API_KEY`],
+      endpoint: profile.endpoint ?? env[`${prefix}_ENDPOINT`],
+      model: profile.model,
+    };
+  }
+  for (const type of EMBEDDING_PROVIDERS) {
+    const prefix = type.toUpperCase();
+    const profile = profiles[type] ?? { type };
+    profiles[type] = {
+      type,
+      apiKey: env[`${prefix}_API_KEY`] ?? profile.apiKey,
+      endpoint: env[`${prefix}_ENDPOINT`] ?? profile.endpoint,
+      model: env[`${prefix}_MODEL`] ?? profile.model,
+    };
+  }
+
+  let chunkingProfiles: Record<string, ChunkingOverrides> = file.chunking?.profiles ?? {};
+  if (env.CHUNKING_PROFILES) {
+    try {
+      const overrides = JSON.parse(env.CHUNKING_PROFILES);
+      if (!isRecord(overrides)) {
+        throw new Error('expected an object of profiles by name');
+      }
+      for (const [name, profile] of Object.entries(overrides)) {
+        if (checkObject(profile, `CHUNKING_PROFILES.${name}`, CHUNKING_PROFILE_KEYS, errors)) {
+          errors.push(...validateChunkingProfile({ ...DEFAULT_CHUNKING_PROFILE, ...profile })
+            .map(error => `CHUNKING_PROFILES.${name}.${error}`));
+        }
+      }
+      chunkingProfiles = { ...chunkingProfiles, ...overrides as Record<string, ChunkingOverrides> };
+    } catch (error) {
+      errors.push(`CHUNKING_PROFILES is not valid: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const rerankerType = env.RERANKER_SERVICE ?? file.reranker?.provider ?? 'fastembed';
+  if (!RERANKER_PROVIDERS.includes(rerankerType)) {
+    errors.push(`RERANKER_SERVICE must be one of ${RERANKER_PROVIDERS.join(', ')}`);
+  }
+
+  const cacheMaxMb = env.EMBEDDING_CACHE_MAX_MB !== undefined
+    ? Number(env.EMBEDDING_CACHE_MAX_MB)
+    : file.embedding?.cache?.maxMb ?? 512;
+  if (!(cacheMaxMb > 0)) {
+    errors.push('EMBEDDING_CACHE_MAX_MB must be a positive number');
+  }
+
+  const config: ServerConfig = {
+    qdrant: {
+      url: env.QDRANT_URL ?? file.qdrant?.url ?? 'http://localhost:6333',
+      apiKey: env.QDRANT_API_KEY ?? secret(file.qdrant, env),
+    },
+    embedding: {
+      defaultProfile: env.DEFAULT_EMBEDDING_SERVICE ?? file.embedding?.defaultProfile,
+      profiles,
+      cache: {
+        enabled: env.EMBEDDING_CACHE !== undefined ? env.EMBEDDING_CACHE === 'true' : file.embedding?.cache?.enabled ?? false,
+        directory: env.EMBEDDING_CACHE_DIR ?? file.embedding?.cache?.directory ?? join(homedir(), '.cache', 'better-qdrant-mcp', 'embeddings'),
+        maxBytes: cacheMaxMb * 1024 * 1024,
+      },
+    },
+    collections: file.collections ?? {},
+    chunking: {
+      defaultProfile: env.DEFAULT_CHUNKING_PROFILE ?? file.chunking?.defaultProfile,
+      profiles: chunkingProfiles,
+    },
+    reranker: {
+      type: rerankerType,
+      model: env.RERANKER_MODEL ?? file.reranker?.model,
+      endpoint: env.RERANKER_ENDPOINT ?? file.reranker?.endpoint,
+      apiKey: env.RERANKER_API_KEY ?? secret(file.reranker, env),
+      cacheDir: env.RERANKER_CACHE_DIR ?? file.reranker?.cacheDir,
+    },
+    prompts: {
+      directory: env.PROMPTS_DIR ?? file.prompts?.directory ?? join(CONFIG_DIRECTORY, 'prompts'),
+    },
+  };
+
+  // Profile references, labelled by where the reference came from
+  const { defaultProfile } = config.embedding;
+  if (defaultProfile !== undefined && !profiles[defaultProfile]) {
+    const key = env.DEFAULT_EMBEDDING_SERVICE !== undefined ? 'DEFAULT_EMBEDDING_SERVICE' : 'embedding.defaultProfile';
+    errors.push(`${key} names an unknown embedding profile "${defaultProfile}"`);
+  }
+  const chunkingNames = [DEFAULT_CHUNKING_PROFILE.name, ...Object.keys(chunkingProfiles)];
+  const defaultChunking = config.chunking.defaultProfile;
+  if (defaultChunking !== undefined && !chunkingNames.includes(defaultChunking)) {
+    const key = env.DEFAULT_CHUNKING_PROFILE !== undefined ? 'DEFAULT_CHUNKING_PROFILE' : 'chunking.defaultProfile';
+    errors.push(`${key} names an unknown chunking profile "${defaultChunking}"`);
+  }
+  for (const [name, defaults] of Object.entries<CollectionDefaults>(config.collections)) {
+    if (defaults.embeddingProfile !== undefined && !profiles[defaults.embeddingProfile]) {
+      errors.push(`collections.${name}.embeddingProfile names an unknown embedding profile "${defaults.embeddingProfile}"`);
+    }
+    if (defaults.chunkingProfile !== undefined && !chunkingNames.includes(defaults.chunkingProfile)) {
+      errors.push(`collections.${name}.chunkingProfile names an unknown chunking profile "${defaults.chunkingProfile}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * Loads the server configuration from a config file, if any, and the environment
+ * @param path Config file; the first existing default path when omitted
+ * @throws Error naming the file and every invalid key if the configuration is invalid
+ */
+export function loadServerConfig(path: string | undefined, env: Env): ServerConfig {
+  const configPath = path ?? DEFAULT_CONFIG_PATHS.find(candidate => existsSync(candidate));
+  if (!configPath) {
+    return resolveServerConfig({}, env);
+  }
+
+  const file = readConfigFile(configPath);
+  const errors = validateConfigFile(file);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${configPath}:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+  try {
+    return resolveServerConfig(file as Record<string, any>, env);
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : error}\n(config file: ${configPath})`);
+  }
+}
@@ -0,0 +1,105 @@
+import { SearchResult } from '../types.js';
+
+// Relevance weight used when a request enables diversity without choosing one
+export const DEFAULT_MMR_LAMBDA = 0.5;
+
+// Candidates fetched per requested result when results are re-ranked or collapsed locally
+export const CANDIDATE_FACTOR = 4;
+
+/**
+ * Re-ranks search results with Maximal Marginal Relevance.
+ *
+ * Each pick maximises lambda * relevance - (1 - lambda) * similarity to the
+ * results already picked, so near-duplicates of a selected chunk drop down the
+ * list. Relevance is the cosine similarity to the query vector when there is one,
+ * and the min-max normalised rerank or search score otherwise (e.g. for sparse
+ * search, or to keep a reranker's judgement of relevance).
+ * Candidates without a vector cannot be compared and keep their original order
+ * after the diversified ones.
+ * @param candidates Search results, with vectors
+ * @param limit Number of results to select
+ * @param lambda Trade-off between relevance (1) and diversity (0)
+ * @param queryVector Dense query vector; omit to rank relevance by score
+ */
+export function maximalMarginalRelevance(
+  candidates: SearchResult[],
+  limit: number,
+  lambda: number = DEFAULT_MMR_LAMBDA,
+  queryVector?: number[]
+): SearchResult[] {
+  const withVectors = candidates.filter(candidate => candidate.vector);
+  const withoutVectors = candidates.filter(candidate => !candidate.vector);
+  const relevance = relevanceScores(withVectors, queryVector);
+
+  const selected: number[] = [];
+  const remaining = new Set(withVectors.keys());
+  // Highest similarity of each candidate to any selected result
+  const redundancy = new Array<number>(withVectors.length).fill(0);
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy[index];
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const index of remaining) {
+      const similarity = cosineSimilarity(withVectors[index].vector!, withVectors[best].vector!);
+      redundancy[index] = Math.max(redundancy[index], similarity);
+    }
+  }
+
+  return [...selected.map(index => withVectors[index]), ...withoutVectors].slice(0, limit);
+}
+
+/**
+ * Drops results whose chunk is adjacent to a better-ranked result of the same
+ * source, as consecutive chunks share their overlap and usually the same content.
+ * @param results Ranked search results with source and index payload fields
+ */
+export function collapseAdjacentChunks(results: SearchResult[]): SearchResult[] {
+  const keptIndexes = new Map<string, number[]>();
+
+  return results.filter(result => {
+    const { source, index } = result.payload;
+    if (typeof source !== 'string' || typeof index !== 'number') {
+      return true;
+    }
+
+    const kept = keptIndexes.get(source) ?? [];
+    if (kept.some(keptIndex => Math.abs(keptIndex - index) <= 1)) {
+      return false;
+    }
+    keptIndexes.set(source, [...kept, index]);
+    return true;
+  });
+}
+
+function relevanceScores(candidates: SearchResult[], queryVector?: number[]): number[] {
+  if (queryVector) {
+    return candidates.map(candidate => cosineSimilarity(queryVector, candidate.vector!));
+  }
+
+  const scores = candidates.map(candidate => candidate.rerankScore ?? candidate.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(score => (range > 0 ? (score - min) / range : 1));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,169 @@
+import { ContextPassage, PointId, QdrantService, StoredPoint } from '../types.js';
+import { sourceFilter } from './indexing.js';
+
+// Longest chunk overlap looked for when joining consecutive chunks
+const MAX_OVERLAP = 4000;
+
+// Most neighbouring chunks read on each side of a search hit
+export const MAX_CONTEXT_WINDOW = 10;
+
+interface MergeableChunk {
+  text: string;
+  startLine?: number;
+  // Character offsets of the chunk in its source
+  start?: number;
+  end?: number;
+}
+
+export interface SourceDocument {
+  source: string;
+  text: string;
+  chunks: number;
+}
+
+/**
+ * Joins consecutive chunk texts into one text, dropping the overlap the
+ * splitter repeated at the start of each chunk. The overlap is taken from the
+ * stored offsets where they agree with the texts, and looked for otherwise.
+ *
+ * Code chunks (which carry line ranges) never overlap and continue on the next
+ * line; other chunks without overlap are separated by a blank line.
+ * @param chunks Chunks in document order
+ */
+export function mergeChunkTexts(chunks: MergeableChunk[]): string {
+  let merged = '';
+
+  chunks.forEach((chunk, i) => {
+    if (i === 0) {
+      merged = chunk.text;
+      return;
+    }
+
+    const overlap = offsetOverlap(merged, chunks[i - 1], chunk) ?? overlapLength(merged, chunk.text);
+    if (overlap > 0) {
+      merged += chunk.text.slice(overlap);
+    } else {
+      const separator = typeof chunk.startLine === 'number' && typeof chunks[i - 1].startLine === 'number'
+        ? '\n'
+        : '\n\n';
+      merged += separator + chunk.text;
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Overlap of two consecutive chunks according to their offsets
+ * @returns The overlap length, or undefined if the offsets are missing or do not match the texts
+ */
+function offsetOverlap(text: string, previous: MergeableChunk, next: MergeableChunk): number | undefined {
+  if (typeof previous.start !== 'number' || typeof previous.end !== 'number' || typeof next.start !== 'number') {
+    return undefined;
+  }
+  // Offsets restart for each document of a multi-document file
+  if (next.start < previous.start) {
+    return undefined;
+  }
+  const overlap = Math.max(0, previous.end - next.start);
+  return overlap < next.text.length && text.endsWith(next.text.slice(0, overlap)) ? overlap : undefined;
+}
+
+/**
+ * Length of the longest suffix of text that is also a prefix of next
+ */
+function overlapLength(text: string, next: string): number {
+  const max = Math.min(text.length, next.length - 1, MAX_OVERLAP);
+  for (let length = max; length > 0; length--) {
+    if (text.endsWith(next.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Reconstructs indexed documents from their stored chunks.
+ */
+export class SourceDocumentReader {
+  constructor(private qdrantService: QdrantService) {}
+
+  /**
+   * Reads every chunk of a source and joins them in index order
+   * @param collection Collection name
+   * @param source Source path as stored in the payload
+   * @returns The reconstructed document, or null if the source has no chunks
+   */
+  async read(collection: string, source: string): Promise<SourceDocument | null> {
+    const points = await this.readChunks(collection, source);
+    if (points.length === 0) {
+      return null;
+    }
+
+    return {
+      source,
+      text: mergeChunkTexts(points.map(toMergeableChunk)),
+      chunks: points.length,
+    };
+  }
+
+  /**
+   * Reads the chunks around a chunk of a source and merges them into one passage
+   * @param index Chunk index of the centre of the passage
+   * @param window Chunks read on each side of the centre
+   * @returns The passage, or null if the source has no chunks in the range
+   */
+  async readContext(collection: string, source: string, index: number, window: number): Promise<ContextPassage | null> {
+    const page = await this.qdrantService.scroll(collection, {
+      filter: {
+        must: [
+          { key: 'source', match: { value: source } },
+          { key: 'index', range: { gte: index - window, lte: index + window } },
+        ],
+      },
+      limit: 2 * window + 1,
+    });
+    const points = page.points.sort((a, b) => (a.payload.index ?? 0) - (b.payload.index ?? 0));
+    if (points.length === 0) {
+      return null;
+    }
+
+    const first = points[0].payload;
+    const last = points[points.length - 1].payload;
+    const offsets = typeof first.start === 'number' && typeof last.end === 'number' && last.end >= first.start;
+    return {
+      text: mergeChunkTexts(points.map(toMergeableChunk)),
+      fromIndex: first.index,
+      toIndex: last.index,
+      ...(offsets ? { start: first.start, end: last.end } : {}),
+      ...(typeof first.startLine === 'number' && typeof last.endLine === 'number'
+        ? { startLine: first.startLine, endLine: last.endLine }
+        : {}),
+    };
+  }
+
+  /**
+   * Reads every chunk of a source, ordered by chunk index
+   */
+  async readChunks(collection: string, source: string): Promise<StoredPoint[]> {
+    const points: StoredPoint[] = [];
+    let offset: PointId | undefined;
+
+    do {
+      const page = await this.qdrantService.scroll(collection, {
+        filter: sourceFilter(source),
+        limit: 256,
+        offset,
+      });
+      points.push(...page.points);
+      offset = page.nextOffset ?? undefined;
+    } while (offset !== undefined);
+
+    return points.sort((a, b) => (a.payload.index ?? 0) - (b.payload.index ?? 0));
+  }
+}
+
+function toMergeableChunk(point: StoredPoint): MergeableChunk {
+  const { text, startLine, start, end } = point.payload;
+  return { text: String(text ?? ''), startLine, start, end };
+}
@@ -1,10 +1,224 @@
-import { EmbeddingGenerator } from '../../types.js';
+import axios from 'axios';
+import { EmbeddingGenerator, EmbeddingRequestOptions, EmbeddingService } from '../../types.js';
+import { OperationCancelledError, throwIfCancelled } from '../progress.js';
+
+/**
+ * Limits used to split embedding requests and recover from transient failures
+ */
+export interface BatchingOptions {
+  // Maximum number of inputs sent in one request
+  maxBatchSize: number;
+  // Maximum estimated tokens sent in one request
+  maxBatchTokens: number;
+  // Maximum number of requests in flight at once
+  concurrency: number;
+  // Retries of a failed request before giving up
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  requestTimeoutMs: number;
+}
+
+export const DEFAULT_BATCHING_OPTIONS: BatchingOptions = {
+  maxBatchSize: 100,
+  maxBatchTokens: 50000,
+  concurrency: 2,
+  maxRetries: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  requestTimeoutMs: 60000,
+};
+
+// Rough characters-per-token ratio used to estimate request sizes without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set(['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'EPIPE']);
+
+/**
+ * Waits for a delay, ending early with OperationCancelledError if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 export abstract class BaseEmbeddingService implements EmbeddingGenerator {
+  protected batching: BatchingOptions = DEFAULT_BATCHING_OPTIONS;
+
   constructor(protected apiKey?: string, protected endpoint?: string, protected model?: string) {}
 
   abstract vectorSize: number;
-  abstract generateEmbeddings(texts: string[]): Promise<number[][]>;
+  abstract readonly provider: EmbeddingService;
+  abstract generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]>;
+
+  /**
+   * Model used to generate embeddings, as recorded in collection metadata
+   */
+  get modelName(): string {
+    return this.model || '';
+  }
+
+  /**
+   * Embeds texts in provider-sized batches with bounded concurrency.
+   * Each batch is retried on transient failures and results keep the input order.
+   * The first batch that fails for good cancels the others and its error is thrown.
+   * @param texts Texts to embed
+   * @param embedBatch Sends one batch to the provider, passing the signal to the HTTP call
+   * @param options Cancellation signal and batch progress callback
+   */
+  protected async embedInBatches(
+    texts: string[],
+    embedBatch: (batch: string[], signal?: AbortSignal) => Promise<number[][]>,
+    options: EmbeddingRequestOptions = {}
+  ): Promise<number[][]> {
+    const batches = this.splitIntoBatches(texts);
+    const results: number[][][] = new Array(batches.length);
+    let next = 0;
+    let completed = 0;
+    let failure: { error: unknown } | undefined;
+
+    // Aborted by the caller or by the first batch that fails for good, which stops
+    // the retries and requests of the batches still in flight
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) {
+      cancel();
+    }
+    options.signal?.addEventListener('abort', cancel, { once: true });
+
+    const worker = async (): Promise<void> => {
+      // Stop picking up batches once any batch has failed for good
+      while (!failure && next < batches.length) {
+        const index = next++;
+        try {
+          const embeddings = await this.withRetry(
+            () => embedBatch(batches[index], controller.signal),
+            controller.signal
+          );
+          if (embeddings.length !== batches[index].length) {
+            throw new Error(
+              `${this.constructor.name} returned ${embeddings.length} embeddings for ${batches[index].length} inputs`
+            );
+          }
+          results[index] = embeddings;
+          options.onBatchComplete?.(++completed, batches.length);
+        } catch (error) {
+          if (!failure) {
+            failure = { error };
+            controller.abort();
+          }
+          throw error;
+        }
+      }
+    };
+
+    const workers = Math.min(this.batching.concurrency, batches.length);
+    try {
+      await Promise.all(Array.from({ length: workers }, worker));
+    } catch (error) {
+      // The batches aborted after the first failure fail with a cancellation; report the cause
+      throw failure ? failure.error : error;
+    } finally {
+      options.signal?.removeEventListener('abort', cancel);
+    }
+
+    return results.flat();
+  }
+
+  /**
+   * Runs a request, retrying transient failures with exponential backoff and jitter.
+   * A Retry-After header from the provider takes precedence over the computed delay.
+   */
+  protected async withRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      throwIfCancelled(signal);
+      try {
+        return await request();
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          throw new OperationCancelledError();
+        }
+        if (attempt >= this.batching.maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const backoff = Math.min(this.batching.maxDelayMs, this.batching.initialDelayMs * 2 ** attempt);
+        const delay = this.retryAfterMs(error) ?? Math.random() * backoff;
+        console.warn(
+          `${this.constructor.name} request failed (${this.describeError(error)}), retrying in ${Math.round(delay)}ms ` +
+          `(attempt ${attempt + 1} of ${this.batching.maxRetries})`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  private splitIntoBatches(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const text of texts) {
+      const tokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+      const full = current.length >= this.batching.maxBatchSize ||
+        (current.length > 0 && currentTokens + tokens > this.batching.maxBatchTokens);
+
+      if (full) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(text);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    if (error.response) {
+      return RETRYABLE_STATUS_CODES.has(error.response.status);
+    }
+    return error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code);
+  }
+
+  private retryAfterMs(error: unknown): number | undefined {
+    if (!axios.isAxiosError(error)) {
+      return undefined;
+    }
+
+    const header = error.response?.headers?.['retry-after'];
+    if (typeof header !== 'string' || header.length === 0) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+    return Number.isNaN(delay) ? undefined : Math.min(Math.max(delay, 0), this.batching.maxDelayMs);
+  }
+
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
 
   protected validateConfig(): void {
     if (this.requiresApiKey() && !this.apiKey) {
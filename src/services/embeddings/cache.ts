@@ -0,0 +1,240 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { EmbeddingGenerator, EmbeddingRequestOptions, EmbeddingService } from '../../types.js';
+
+export interface EmbeddingCacheOptions {
+  directory: string;
+  maxBytes: number;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  path: string;
+  size: number;
+  lastUsed: number;
+}
+
+// After an eviction the cache is trimmed to this fraction of its size limit
+const EVICTION_TARGET_RATIO = 0.9;
+
+// Cache files read at once by a single embedding request
+const READ_CONCURRENCY = 32;
+
+/**
+ * Content-addressed on-disk store for embeddings.
+ *
+ * Each vector is stored as raw little-endian float32 in a file named after the
+ * hash of provider, model and text. When the total size exceeds the limit, the
+ * least recently used entries are evicted.
+ */
+export class EmbeddingCache {
+  private entries: Map<string, CacheEntry> | null = null;
+  // Scan of the cache directory shared by the lookups that start before it finishes
+  private loading: Promise<Map<string, CacheEntry>> | null = null;
+  private totalBytes = 0;
+  private counters = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  constructor(private options: EmbeddingCacheOptions) {}
+
+  /**
+   * Builds the cache key of a text for a given provider and model
+   */
+  static key(provider: EmbeddingService, model: string, text: string): string {
+    return createHash('sha256').update(`${provider}\0${model}\0${text}`).digest('hex');
+  }
+
+  /**
+   * Reads a cached vector
+   * @returns The vector or null on a miss
+   */
+  async get(key: string): Promise<number[] | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) {
+      this.counters.misses++;
+      return null;
+    }
+
+    try {
+      const buffer = await fs.readFile(entry.path);
+      const vector = Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+      entry.lastUsed = Date.now();
+      // Touch the file so recency survives restarts
+      await fs.utimes(entry.path, new Date(), new Date(entry.lastUsed)).catch(() => undefined);
+      this.counters.hits++;
+      return vector;
+    } catch {
+      this.forget(key);
+      this.counters.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Stores a vector, evicting old entries when the size limit is exceeded
+   */
+  async set(key: string, vector: number[]): Promise<void> {
+    const entries = await this.load();
+    const path = this.pathFor(key);
+    const data = Buffer.from(new Float32Array(vector).buffer);
+
+    try {
+      await fs.mkdir(join(this.options.directory, key.slice(0, 2)), { recursive: true });
+      // Write then rename so concurrent readers never see a partial file; concurrent
+      // writes of the same key each get their own temporary file
+      const tempPath = `${path}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, path);
+    } catch (error) {
+      console.warn('Could not write embedding cache entry:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    this.forget(key);
+    entries.set(key, { path, size: data.byteLength, lastUsed: Date.now() });
+    this.totalBytes += data.byteLength;
+    this.counters.writes++;
+
+    if (this.totalBytes > this.options.maxBytes) {
+      await this.evict();
+    }
+  }
+
+  /**
+   * Gets cumulative cache statistics
+   */
+  async stats(): Promise<EmbeddingCacheStats> {
+    const entries = await this.load();
+    return {
+      ...this.counters,
+      entries: entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.options.maxBytes,
+    };
+  }
+
+  private pathFor(key: string): string {
+    return join(this.options.directory, key.slice(0, 2), `${key}.f32`);
+  }
+
+  private forget(key: string): void {
+    const existing = this.entries?.get(key);
+    if (existing) {
+      this.totalBytes -= existing.size;
+      this.entries!.delete(key);
+    }
+  }
+
+  /**
+   * Scans the cache directory once to learn existing entries and their sizes
+   */
+  private load(): Promise<Map<string, CacheEntry>> {
+    if (!this.loading) {
+      this.loading = this.scan().catch(error => {
+        // A failed scan is retried by the next lookup
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async scan(): Promise<Map<string, CacheEntry>> {
+    const entries = new Map<string, CacheEntry>();
+    let totalBytes = 0;
+    await fs.mkdir(this.options.directory, { recursive: true });
+
+    for (const shard of await fs.readdir(this.options.directory)) {
+      const shardPath = join(this.options.directory, shard);
+      const files = await fs.readdir(shardPath).catch(() => [] as string[]);
+      for (const file of files) {
+        if (!file.endsWith('.f32')) continue;
+        const path = join(shardPath, file);
+        const stat = await fs.stat(path).catch(() => null);
+        if (!stat) continue;
+        entries.set(file.slice(0, -4), { path, size: stat.size, lastUsed: stat.mtimeMs });
+        totalBytes += stat.size;
+      }
+    }
+
+    this.entries = entries;
+    this.totalBytes = totalBytes;
+    return entries;
+  }
+
+  private async evict(): Promise<void> {
+    const target = this.options.maxBytes * EVICTION_TARGET_RATIO;
+    const byAge = [...this.entries!.entries()].sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [key, entry] of byAge) {
+      if (this.totalBytes <= target) break;
+      await fs.rm(entry.path, { force: true });
+      this.forget(key);
+      this.counters.evictions++;
+    }
+  }
+}
+
+/**
+ * Embedding generator that serves repeated texts from an EmbeddingCache and
+ * only sends cache misses to the wrapped provider.
+ */
+export class CachedEmbeddingService implements EmbeddingGenerator {
+  // Hits and misses of this instance, i.e. of a single tool call
+  readonly stats = { hits: 0, misses: 0 };
+
+  constructor(
+    private inner: EmbeddingGenerator,
+    private cache: EmbeddingCache
+  ) {}
+
+  get vectorSize(): number {
+    return this.inner.vectorSize;
+  }
+
+  get provider(): EmbeddingService {
+    return this.inner.provider;
+  }
+
+  get modelName(): string {
+    return this.inner.modelName;
+  }
+
+  async initializeVectorSize(): Promise<void> {
+    await this.inner.initializeVectorSize?.();
+  }
+
+  async generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]> {
+    const keys = texts.map(text => EmbeddingCache.key(this.provider, this.modelName, text));
+    const results: (number[] | null)[] = [];
+    for (let start = 0; start < keys.length; start += READ_CONCURRENCY) {
+      results.push(...await Promise.all(keys.slice(start, start + READ_CONCURRENCY).map(key => this.cache.get(key))));
+    }
+
+    const missing = results
+      .map((vector, index) => (vector ? -1 : index))
+      .filter(index => index !== -1);
+    this.stats.hits += texts.length - missing.length;
+    this.stats.misses += missing.length;
+
+    if (missing.length > 0) {
+      const embeddings = await this.inner.generateEmbeddings(missing.map(index => texts[index]), options);
+      for (let i = 0; i < missing.length; i++) {
+        results[missing[i]] = embeddings[i];
+        await this.cache.set(keys[missing[i]], embeddings[i]);
+      }
+    }
+
+    return results as number[][];
+  }
+}
@@ -1,8 +1,11 @@
+import { EmbeddingRequestOptions } from '../../types.js';
+import { throwIfCancelled } from '../progress.js';
 import { BaseEmbeddingService } from './base.js';
 
 export class FastEmbedService extends BaseEmbeddingService {
   // FastEmbed models typically produce 384-dimensional embeddings
   readonly vectorSize = 384;
+  readonly provider = 'fastembed' as const;
   private readonly defaultModel = 'BAAI/bge-small-en';
   private embedder: any = null;
 
@@ -20,13 +23,15 @@ export class FastEmbedService extends BaseEmbeddingService {
     }
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]> {
+    throwIfCancelled(options?.signal);
     await this.initializeEmbedder();
     if (!this.embedder) {
       throw new Error('FastEmbed embedder not initialized');
     }
 
     const embeddings = await this.embedder.embed(texts);
+    options?.onBatchComplete?.(1, 1);
     return embeddings.map((embedding: Float32Array) => Array.from(embedding));
   }
 
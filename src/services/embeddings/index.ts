@@ -3,6 +3,7 @@ import { OpenAIEmbeddingService } from './openai.js';
 import { OpenRouterEmbeddingService } from './openrouter.js';
 import { OllamaEmbeddingService } from './ollama.js';
 import { FastEmbedService } from './fastembed.js';
+import { CachedEmbeddingService, EmbeddingCache } from './cache.js';
 
 export function createEmbeddingService(config: EmbeddingServiceConfig): EmbeddingGenerator {
   switch (config.type) {
@@ -32,9 +33,14 @@ export function createEmbeddingService(config: EmbeddingServiceConfig): Embeddin
 /**
  * Create and initialize an embedding service.
  * Automatically detects vector dimensions for services that support it.
+ * When a cache is given, the service is wrapped so repeated texts are not re-embedded.
  */
-export async function createAndInitializeEmbeddingService(config: EmbeddingServiceConfig): Promise<EmbeddingGenerator> {
-  const service = createEmbeddingService(config);
+export async function createAndInitializeEmbeddingService(
+  config: EmbeddingServiceConfig,
+  cache?: EmbeddingCache
+): Promise<EmbeddingGenerator> {
+  const provider = createEmbeddingService(config);
+  const service = cache ? new CachedEmbeddingService(provider, cache) : provider;
   
   // Initialize vector size for services that support it
   if (service.initializeVectorSize) {
@@ -48,3 +54,4 @@ export { OpenAIEmbeddingService } from './openai.js';
 export { OpenRouterEmbeddingService } from './openrouter.js';
 export { OllamaEmbeddingService } from './ollama.js';
 export { FastEmbedService } from './fastembed.js';
+export { CachedEmbeddingService, EmbeddingCache } from './cache.js';
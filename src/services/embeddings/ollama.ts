@@ -1,11 +1,15 @@
 import axios from 'axios';
-import { BaseEmbeddingService } from './base.js';
+import { EmbeddingRequestOptions } from '../../types.js';
+import { BaseEmbeddingService, DEFAULT_BATCHING_OPTIONS } from './base.js';
 
 export class OllamaEmbeddingService extends BaseEmbeddingService {
+  readonly provider = 'ollama' as const;
   // Vector size is determined dynamically based on the model
   private _vectorSize: number | null = null;
   private readonly defaultModel = 'nomic-embed-text';
   private readonly defaultEndpoint = 'http://host.docker.internal:11434';
+  // Local models embed sequentially, so small batches and low concurrency keep requests responsive
+  protected batching = { ...DEFAULT_BATCHING_OPTIONS, maxBatchSize: 32, maxBatchTokens: 16000, concurrency: 2 };
   
   // Cache to avoid repeated dimension detection calls for the same model
   private static dimensionCache = new Map<string, number>();
@@ -58,7 +62,7 @@ export class OllamaEmbeddingService extends BaseEmbeddingService {
    * Detect model dimensions by generating a test embedding.
    */
   private async detectModelDimensions(): Promise<number[]> {
-    const response = await axios.post(
+    const response = await this.withRetry(() => axios.post(
       `${this.endpoint}/api/embed`,
       {
         model: this.model || this.defaultModel,
@@ -68,8 +72,9 @@ export class OllamaEmbeddingService extends BaseEmbeddingService {
         headers: {
           'Content-Type': 'application/json',
         },
+        timeout: this.batching.requestTimeoutMs,
       }
-    );
+    ));
 
     const data = response.data as { embeddings?: number[][] };
     
@@ -85,12 +90,16 @@ export class OllamaEmbeddingService extends BaseEmbeddingService {
     return embedding;
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]> {
     // Ensure vector size is initialized
     if (this._vectorSize === null) {
       await this.initializeVectorSize();
     }
 
+    return this.embedInBatches(texts, (batch, signal) => this.requestEmbeddings(batch, signal), options);
+  }
+
+  private async requestEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     // Use the new /api/embed endpoint which supports batch processing
     const response = await axios.post(
       `${this.endpoint}/api/embed`,
@@ -102,6 +111,8 @@ export class OllamaEmbeddingService extends BaseEmbeddingService {
         headers: {
           'Content-Type': 'application/json',
         },
+        timeout: this.batching.requestTimeoutMs,
+        signal,
       }
     );
 
@@ -1,11 +1,15 @@
 import axios from 'axios';
-import { BaseEmbeddingService } from './base.js';
+import { EmbeddingRequestOptions } from '../../types.js';
+import { BaseEmbeddingService, DEFAULT_BATCHING_OPTIONS } from './base.js';
 
 export class OpenAIEmbeddingService extends BaseEmbeddingService {
   // OpenAI's text-embedding-ada-002 produces 1536-dimensional embeddings
   readonly vectorSize = 1536;
+  readonly provider = 'openai' as const;
   private readonly defaultModel = 'text-embedding-ada-002';
   private readonly defaultEndpoint = 'https://api.openai.com/v1';
+  // OpenAI accepts up to 2048 inputs and 300k tokens per request; stay well below
+  protected batching = { ...DEFAULT_BATCHING_OPTIONS, maxBatchSize: 512, maxBatchTokens: 100000, concurrency: 4 };
 
   constructor(apiKey: string, endpoint?: string, model?: string) {
     super(
@@ -16,7 +20,11 @@ export class OpenAIEmbeddingService extends BaseEmbeddingService {
     this.validateConfig();
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]> {
+    return this.embedInBatches(texts, (batch, signal) => this.requestEmbeddings(batch, signal), options);
+  }
+
+  private async requestEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     const response = await axios.post(
       `${this.endpoint}/embeddings`,
       {
@@ -28,17 +36,19 @@ export class OpenAIEmbeddingService extends BaseEmbeddingService {
           'Authorization': `Bearer ${this.apiKey}`,
           'Content-Type': 'application/json',
         },
+        timeout: this.batching.requestTimeoutMs,
+        signal,
       }
     );
 
     // Type guard for OpenAI API response
-    const data = response.data as { data?: Array<{ embedding?: number[] }> };
+    const data = response.data as { data?: Array<{ embedding?: number[]; index?: number }> };
     
     if (!data.data || !Array.isArray(data.data)) {
       throw new Error('Invalid response from OpenAI API');
     }
 
-    return data.data.map((item: any) => {
+    return data.data.map(item => {
       if (!item.embedding || !Array.isArray(item.embedding)) {
         throw new Error('Invalid embedding format in OpenAI response');
       }
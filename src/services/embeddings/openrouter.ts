@@ -1,11 +1,15 @@
 import axios from 'axios';
-import { BaseEmbeddingService } from './base.js';
+import { EmbeddingRequestOptions } from '../../types.js';
+import { BaseEmbeddingService, DEFAULT_BATCHING_OPTIONS } from './base.js';
 
 export class OpenRouterEmbeddingService extends BaseEmbeddingService {
   // Using OpenAI-compatible model by default, which produces 1536-dimensional embeddings
   readonly vectorSize = 1536;
+  readonly provider = 'openrouter' as const;
   private readonly defaultModel = 'openai/text-embedding-ada-002';
   private readonly defaultEndpoint = 'https://openrouter.ai/api/v1';
+  // Upstream providers behind OpenRouter have varying limits, so keep batches moderate
+  protected batching = { ...DEFAULT_BATCHING_OPTIONS, maxBatchSize: 256, maxBatchTokens: 60000, concurrency: 4 };
 
   constructor(apiKey: string, endpoint?: string, model?: string) {
     super(
@@ -16,7 +20,11 @@ export class OpenRouterEmbeddingService extends BaseEmbeddingService {
     this.validateConfig();
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]> {
+    return this.embedInBatches(texts, (batch, signal) => this.requestEmbeddings(batch, signal), options);
+  }
+
+  private async requestEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     const response = await axios.post(
       `${this.endpoint}/embeddings`,
       {
@@ -30,6 +38,8 @@ export class OpenRouterEmbeddingService extends BaseEmbeddingService {
           'HTTP-Referer': 'https://github.com/wreeves/better-qdrant',
           'X-Title': 'Better Qdrant',
         },
+        timeout: this.batching.requestTimeoutMs,
+        signal,
       }
     );
 
@@ -0,0 +1,115 @@
+import { existsSync, openSync, readSync, closeSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, join, relative, resolve, sep } from 'path';
+import { minimatch } from 'minimatch';
+import ignoreModule, { Ignore } from 'ignore';
+
+// ignore is a CommonJS module that also exposes its factory as `default`
+const ignore = ignoreModule.default;
+
+export interface FileDiscoveryOptions {
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+}
+
+export interface DiscoveredFile {
+  path: string;
+  relativePath: string;
+}
+
+interface GitignoreScope {
+  base: string;
+  matcher: Ignore;
+}
+
+// Number of leading bytes inspected when deciding whether a file is binary (same heuristic as git)
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Resolves a file or directory path into the absolute paths of the files to ingest.
+ *
+ * Directories are walked recursively. Paths are matched against the include and
+ * exclude glob patterns relative to the root directory, and `.gitignore` files
+ * found along the way are honored unless disabled.
+ */
+export function discoverFiles(path: string, options: FileDiscoveryOptions = {}): DiscoveredFile[] {
+  if (!existsSync(path)) {
+    throw new Error(`Path does not exist: ${path}`);
+  }
+
+  // Absolute paths keep the stored source stable regardless of the working directory
+  const root = resolve(path);
+  if (!statSync(root).isDirectory()) {
+    return [{ path: root, relativePath: basename(root) }];
+  }
+
+  const include = options.include && options.include.length > 0 ? options.include : ['**/*'];
+  const exclude = options.exclude || [];
+  const respectGitignore = options.respectGitignore !== false;
+  const files: DiscoveredFile[] = [];
+
+  const walk = (dir: string, scopes: GitignoreScope[]): void => {
+    const activeScopes = respectGitignore ? withGitignore(dir, scopes) : scopes;
+    const entries = readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name === '.git') continue;
+
+      const fullPath = join(dir, entry.name);
+      const relativePath = toPosix(relative(root, fullPath));
+      const isDirectory = entry.isDirectory();
+
+      if (isIgnored(fullPath, isDirectory, activeScopes)) continue;
+
+      if (isDirectory) {
+        if (exclude.some(pattern => matches(relativePath, pattern) || matches(`${relativePath}/`, pattern))) continue;
+        walk(fullPath, activeScopes);
+      } else if (entry.isFile()) {
+        if (!include.some(pattern => matches(relativePath, pattern))) continue;
+        if (exclude.some(pattern => matches(relativePath, pattern))) continue;
+        files.push({ path: fullPath, relativePath });
+      }
+    }
+  };
+
+  walk(root, []);
+  return files;
+}
+
+/**
+ * Checks whether a file looks binary by looking for NUL bytes in its first chunk
+ */
+export function isBinaryFile(path: string): boolean {
+  const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+  const fd = openSync(path, 'r');
+  try {
+    const bytesRead = readSync(fd, buffer, 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function withGitignore(dir: string, scopes: GitignoreScope[]): GitignoreScope[] {
+  const gitignorePath = join(dir, '.gitignore');
+  if (!existsSync(gitignorePath)) return scopes;
+
+  const matcher = ignore().add(readFileSync(gitignorePath, 'utf-8'));
+  return [...scopes, { base: dir, matcher }];
+}
+
+function isIgnored(fullPath: string, isDirectory: boolean, scopes: GitignoreScope[]): boolean {
+  return scopes.some(scope => {
+    const path = toPosix(relative(scope.base, fullPath));
+    return scope.matcher.ignores(isDirectory ? `${path}/` : path);
+  });
+}
+
+function matches(path: string, pattern: string): boolean {
+  return minimatch(path, pattern, { dot: true, matchBase: !pattern.includes('/') });
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
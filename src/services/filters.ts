@@ -0,0 +1,275 @@
+import { minimatch } from 'minimatch';
+import { Schemas } from '@qdrant/js-client-rest';
+import { isAbsolute } from 'path';
+import { PointId, QdrantFilter, QdrantService } from '../types.js';
+
+type MatchValue = string | number | boolean;
+type FieldCondition = Schemas['FieldCondition'];
+
+export interface RangeCondition {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Condition on a single payload key. `match` accepts a value or a list of
+ * alternatives; `range` bounds numeric values.
+ */
+export interface FilterCondition {
+  key: string;
+  match?: MatchValue | MatchValue[];
+  range?: RangeCondition;
+}
+
+/**
+ * Search filter accepted by the `search` tool.
+ *
+ * `source` restricts results to exact source paths or glob patterns; `must`,
+ * `should` and `must_not` combine payload conditions like a Qdrant filter.
+ */
+export interface SearchFilter {
+  source?: string | string[];
+  must?: FilterCondition[];
+  should?: FilterCondition[];
+  must_not?: FilterCondition[];
+}
+
+/**
+ * Result of search filter validation
+ */
+export interface FilterValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+const CLAUSES = ['must', 'should', 'must_not'] as const;
+const RANGE_BOUNDS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+/**
+ * JSON schema of the `filter` argument, shared by the tools that accept one
+ */
+export const SEARCH_FILTER_SCHEMA = {
+  type: 'object',
+  description: 'Payload filter restricting results (optional)',
+  properties: {
+    source: {
+      oneOf: [
+        { type: 'string' },
+        { type: 'array', items: { type: 'string' } },
+      ],
+      description: 'Source path(s) or glob pattern(s) such as "docs/api/*"',
+    },
+    ...Object.fromEntries(CLAUSES.map(clause => [clause, {
+      type: 'array',
+      description: `Conditions combined as Qdrant "${clause}"`,
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', description: 'Payload key, dot notation for nested keys' },
+          match: { description: 'Value to match, or a list of accepted values' },
+          range: {
+            type: 'object',
+            properties: Object.fromEntries(RANGE_BOUNDS.map(bound => [bound, { type: 'number' }])),
+          },
+        },
+        required: ['key'],
+      },
+    }])),
+  },
+};
+
+/**
+ * Validates a search filter supplied as tool arguments
+ * @param filter Untrusted filter value
+ * @returns Validation result listing every problem found
+ */
+export function validateSearchFilter(filter: unknown): FilterValidationResult {
+  const errors: string[] = [];
+
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return { isValid: false, errors: ['filter must be an object'] };
+  }
+
+  const f = filter as Record<string, unknown>;
+  for (const key of Object.keys(f)) {
+    if (key !== 'source' && !(CLAUSES as readonly string[]).includes(key)) {
+      errors.push(`Unknown filter field "${key}" (expected source, must, should or must_not)`);
+    }
+  }
+
+  if (f.source !== undefined) {
+    const sources = Array.isArray(f.source) ? f.source : [f.source];
+    if (sources.length === 0 || !sources.every(source => typeof source === 'string' && source.length > 0)) {
+      errors.push('filter.source must be a non-empty string or array of strings');
+    }
+  }
+
+  for (const clause of CLAUSES) {
+    const conditions = f[clause];
+    if (conditions === undefined) continue;
+
+    if (!Array.isArray(conditions)) {
+      errors.push(`filter.${clause} must be an array of conditions`);
+      continue;
+    }
+
+    conditions.forEach((condition, index) => {
+      errors.push(...validateCondition(condition, `filter.${clause}[${index}]`));
+    });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+function validateCondition(condition: unknown, path: string): string[] {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const c = condition as Record<string, unknown>;
+
+  if (typeof c.key !== 'string' || c.key.length === 0) {
+    errors.push(`${path}.key must be a non-empty string`);
+  }
+
+  if ((c.match === undefined) === (c.range === undefined)) {
+    errors.push(`${path} must have exactly one of match or range`);
+  }
+
+  if (c.match !== undefined) {
+    const values = Array.isArray(c.match) ? c.match : [c.match];
+    if (values.length === 0 || !values.every(isMatchValue)) {
+      errors.push(`${path}.match must be a string, number, boolean or a non-empty array of them`);
+    } else if (Array.isArray(c.match) && !values.every(value => typeof value === 'string') &&
+      !values.every(value => typeof value === 'number' && Number.isInteger(value))) {
+      errors.push(`${path}.match array must contain only strings or only integers`);
+    }
+  }
+
+  if (c.range !== undefined) {
+    if (!c.range || typeof c.range !== 'object' || Array.isArray(c.range)) {
+      errors.push(`${path}.range must be an object`);
+    } else {
+      const range = c.range as Record<string, unknown>;
+      const bounds = Object.keys(range);
+      if (bounds.length === 0) {
+        errors.push(`${path}.range must set at least one of gt, gte, lt, lte`);
+      }
+      for (const bound of bounds) {
+        if (!(RANGE_BOUNDS as readonly string[]).includes(bound)) {
+          errors.push(`${path}.range has unknown bound "${bound}"`);
+        } else if (typeof range[bound] !== 'number') {
+          errors.push(`${path}.range.${bound} must be a number`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isMatchValue(value: unknown): value is MatchValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Translates validated search filters into Qdrant filters.
+ *
+ * Glob patterns and relative paths on `source` cannot be expressed in Qdrant, so they
+ * are resolved against the distinct indexed source values and sent as a list of exact matches.
+ */
+export class SearchFilterBuilder {
+  constructor(private qdrantService: QdrantService) {}
+
+  /**
+   * Builds the Qdrant filter for a collection
+   * @param collection Collection the filter will be applied to
+   * @param filter Search filter that passed validateSearchFilter
+   * @returns Qdrant filter
+   */
+  async build(collection: string, filter: SearchFilter): Promise<QdrantFilter> {
+    const must = (filter.must || []).map(toFieldCondition);
+    const should = (filter.should || []).map(toFieldCondition);
+    const mustNot = (filter.must_not || []).map(toFieldCondition);
+
+    if (filter.source !== undefined) {
+      const sources = await this.resolveSources(
+        collection,
+        Array.isArray(filter.source) ? filter.source : [filter.source]
+      );
+      must.push({ key: 'source', match: { any: sources } });
+    }
+
+    const result: QdrantFilter = {};
+    if (must.length > 0) result.must = must;
+    if (should.length > 0) result.should = should;
+    if (mustNot.length > 0) result.must_not = mustNot;
+    return result;
+  }
+
+  /**
+   * Resolves source paths and glob patterns into the stored source paths they match.
+   * Stored sources are absolute, so relative paths match by suffix like relative globs.
+   * @returns The matched sources, or [""] when nothing matches so a filter on them excludes everything
+   */
+  async resolveSources(collection: string, patterns: string[]): Promise<string[]> {
+    const exact = patterns.filter(pattern => !hasGlob(pattern) && isAbsolute(pattern));
+    const globs = patterns.filter(pattern => !exact.includes(pattern));
+    if (globs.length === 0) return exact;
+
+    const matched = (await this.storedSources(collection))
+      .filter(source => globs.some(pattern => matchesSource(source, pattern)));
+
+    // A filter that matches nothing must still exclude everything
+    const sources = [...new Set([...exact, ...matched])];
+    return sources.length > 0 ? sources : [''];
+  }
+
+  /**
+   * Lists the distinct stored source paths. Faceting needs a payload index on source;
+   * without one the sources are collected by scrolling through the points.
+   */
+  private async storedSources(collection: string): Promise<string[]> {
+    const { payloadIndexes } = await this.qdrantService.describeCollection(collection);
+    if ('source' in payloadIndexes) {
+      const hits = await this.qdrantService.facet(collection, 'source');
+      return hits.map(hit => String(hit.value));
+    }
+
+    const sources = new Set<string>();
+    let offset: PointId | undefined;
+    do {
+      const page = await this.qdrantService.scroll(collection, { limit: 256, offset });
+      for (const point of page.points) {
+        if (typeof point.payload.source === 'string') {
+          sources.add(point.payload.source);
+        }
+      }
+      offset = page.nextOffset ?? undefined;
+    } while (offset !== undefined);
+    return [...sources];
+  }
+}
+
+function toFieldCondition(condition: FilterCondition): FieldCondition {
+  if (condition.range) {
+    return { key: condition.key, range: condition.range };
+  }
+  const match = Array.isArray(condition.match)
+    ? { any: condition.match as string[] | number[] }
+    : { value: condition.match as MatchValue };
+  return { key: condition.key, match };
+}
+
+function hasGlob(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+function matchesSource(source: string, pattern: string): boolean {
+  // Relative paths and patterns match anywhere below the indexed (absolute) source paths
+  const anchored = isAbsolute(pattern) ? pattern : `**/${pattern.replace(/^\.\//, '')}`;
+  return minimatch(source, anchored, { dot: true });
+}
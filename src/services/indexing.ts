@@ -0,0 +1,328 @@
+import { createHash } from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+import { CollectionOptions, EmbeddingGenerator, NamedVectors, QdrantFilter, QdrantService } from '../types.js';
+import { ChunkingProfile } from './chunking.js';
+import { CollectionMetadataStore } from './collection-metadata.js';
+import { throwIfCancelled } from './progress.js';
+import { Bm25Encoder } from './sparse.js';
+import { TextChunk } from './text-processing.js';
+import { VectorValidationService } from './validation.js';
+
+// Namespace used to derive deterministic point ids from source paths and chunk hashes
+const POINT_ID_NAMESPACE = '6f1c3f4e-2b8a-4d6e-9c1a-5e7b3d2f8a90';
+
+export interface IndexFileRequest {
+  collection: string;
+  source: string;
+  // Raw file content, hashed to detect unchanged files
+  content: string | Buffer;
+  chunks: TextChunk[];
+  // Profile the chunks were made with; re-chunking with another profile re-indexes the file
+  chunking: ChunkingProfile;
+  // Loader settings the text was extracted with; other settings re-index the file as well
+  loading: LoadingSettings;
+  // Embedding service of each dense vector by vector name; "" is the unnamed vector
+  embeddingServices: Record<string, EmbeddingGenerator>;
+  collectionExists: boolean;
+  // Store BM25 sparse vectors; new collections get a sparse vector when set
+  sparse: boolean;
+  // Settings of the collection when this file creates it
+  collectionOptions?: CollectionOptions;
+  signal?: AbortSignal;
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+export interface LoadingSettings {
+  // Format of the loader that read the file
+  format: string;
+  textFields?: string[];
+  payloadFields?: string[];
+}
+
+export type IndexProgress =
+  | { stage: 'embedding'; completed: number; total: number }
+  | { stage: 'upserting' };
+
+export interface IndexFileResult {
+  status: 'added' | 'updated' | 'unchanged';
+  chunks: number;
+  embedded: number;
+  removed: number;
+  warnings: string[];
+}
+
+interface PlannedChunk {
+  id: string;
+  chunkHash: string;
+  chunk: TextChunk;
+}
+
+/**
+ * Identifies the chunking and loader settings of a file independently of payload key order
+ */
+function ingestionKey(profile: Partial<ChunkingProfile>, loading: Partial<LoadingSettings>): string {
+  const { name, strategy, unit, size, overlap, separators } = profile;
+  const { format, textFields, payloadFields } = loading;
+  return JSON.stringify([
+    name, strategy, unit, size, overlap, separators ?? null,
+    format ?? null, textFields ?? null, payloadFields ?? null,
+  ]);
+}
+
+/**
+ * Hashes text content with SHA-256
+ * @returns Hex encoded digest
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Builds the filter selecting every point that belongs to a source file
+ */
+export function sourceFilter(source: string): QdrantFilter {
+  return {
+    must: [{ key: 'source', match: { value: source } }]
+  };
+}
+
+/**
+ * Creates a collection with one dense vector per embedding service and records
+ * the model of each vector. A single service keyed by "" gets the unnamed vector.
+ * @param embeddingServices Embedding service of each vector by vector name
+ * @param options Collection settings; the distance applies to every vector
+ */
+export async function createCollectionWithMetadata(
+  qdrantService: QdrantService,
+  metadataStore: CollectionMetadataStore,
+  collection: string,
+  embeddingServices: Record<string, EmbeddingGenerator>,
+  options: CollectionOptions = {}
+): Promise<void> {
+  const entries = Object.entries(embeddingServices);
+  const unnamed = entries.length === 1 && entries[0][0] === '';
+  const distance = options.distance ?? 'Cosine';
+  const models = Object.fromEntries(entries.map(([name, service]) => [name, {
+    provider: service.provider,
+    model: service.modelName,
+    vectorSize: service.vectorSize,
+    distance,
+  }]));
+
+  await qdrantService.createCollection(
+    collection,
+    unnamed
+      ? entries[0][1].vectorSize
+      : Object.fromEntries(entries.map(([name, service]) => [name, service.vectorSize])),
+    options
+  );
+  await metadataStore.set(collection, {
+    // The first vector is searched by default
+    ...models[entries[0][0]],
+    createdAt: new Date().toISOString(),
+    ...(unnamed ? {} : { vectors: models }),
+  });
+}
+
+/**
+ * Incremental indexer that keeps a collection in sync with the files it was built from.
+ *
+ * Point ids are derived from the source path and the chunk content hash, so re-ingesting
+ * a file overwrites its points instead of duplicating them. Unchanged files are skipped by
+ * comparing the stored file hash, unchanged chunks reuse their stored vectors, and chunks
+ * that no longer exist in the file are deleted.
+ */
+export class IncrementalIndexer {
+  private sparseEncoder = new Bm25Encoder();
+
+  constructor(
+    private qdrantService: QdrantService,
+    private validationService: VectorValidationService,
+    private metadataStore: CollectionMetadataStore
+  ) {}
+
+  /**
+   * Indexes one file into a collection, embedding only chunks that are not stored yet.
+   *
+   * Cancellation is honored until the file's points start being written; from then
+   * on the upsert and stale-chunk removal run to completion so the file is never
+   * left half-updated.
+   * @param request Collection, source path, file content and its chunks
+   * @returns What was done with the file
+   */
+  async indexFile(request: IndexFileRequest): Promise<IndexFileResult> {
+    const {
+      collection, source, content, chunks, chunking, loading, embeddingServices, collectionExists, sparse,
+      collectionOptions, signal, onProgress,
+    } = request;
+    const vectorNames = Object.keys(embeddingServices);
+    const fileHash = hashContent(content);
+    throwIfCancelled(signal);
+
+    const stored = collectionExists ? await this.getStoredFileState(collection, source) : null;
+    if (stored?.fileHash === fileHash && stored.ingestionKey === ingestionKey(chunking, loading)) {
+      return { status: 'unchanged', chunks: chunks.length, embedded: 0, removed: 0, warnings: [] };
+    }
+
+    const planned = this.planChunks(source, chunks);
+    const storedVectors = collectionExists
+      ? await this.getStoredVectors(collection, source)
+      : new Map<string, NamedVectors>();
+
+    // Only vectors a stored point lacks need new embeddings
+    const pendingByVector = vectorNames.map(name =>
+      planned.filter(item => !storedVectors.get(item.id)?.[name])
+    );
+    const totalPending = pendingByVector.reduce((sum, pending) => sum + pending.length, 0);
+
+    const vectors = new Map<string, NamedVectors>(
+      planned.map(item => [item.id, { ...storedVectors.get(item.id) }])
+    );
+    const warnings: string[] = [];
+    let embeddedBefore = 0;
+
+    for (const [i, name] of vectorNames.entries()) {
+      const pending = pendingByVector[i];
+      if (pending.length === 0) {
+        continue;
+      }
+
+      const embeddingService = embeddingServices[name];
+      const embeddings = await embeddingService.generateEmbeddings(pending.map(item => item.chunk.text), {
+        signal,
+        onBatchComplete: (completed, total) => onProgress?.({
+          stage: 'embedding',
+          completed: embeddedBefore + pending.length * completed / total,
+          total: totalPending,
+        }),
+      });
+      embeddedBefore += pending.length;
+
+      const vectorValidation = this.validationService.validateVectorData(
+        embeddings,
+        embeddingService.vectorSize
+      );
+      if (!vectorValidation.isValid) {
+        const label = name ? ` for vector "${name}"` : '';
+        throw new Error(`Vector validation failed${label}: ${vectorValidation.errors.join('; ')}`);
+      }
+      warnings.push(...vectorValidation.warnings);
+      pending.forEach((item, j) => {
+        vectors.get(item.id)![name] = embeddings[j];
+      });
+    }
+
+    // Last point at which cancelling leaves the collection untouched
+    throwIfCancelled(signal);
+    onProgress?.({ stage: 'upserting' });
+
+    if (!collectionExists) {
+      await createCollectionWithMetadata(
+        this.qdrantService,
+        this.metadataStore,
+        collection,
+        embeddingServices,
+        { ...collectionOptions, sparse }
+      );
+    }
+
+    const unnamed = vectorNames.length === 1 && vectorNames[0] === '';
+    if (planned.length > 0) {
+      await this.qdrantService.addDocuments(
+        collection,
+        planned.map(item => ({
+          id: item.id,
+          vector: unnamed ? vectors.get(item.id)!['']! : vectors.get(item.id)!,
+          sparseVector: sparse ? this.sparseEncoder.encodeDocument(item.chunk.text) : undefined,
+          payload: {
+            text: item.chunk.text,
+            ...item.chunk.metadata,
+            source,
+            fileHash,
+            chunkHash: item.chunkHash,
+            chunking: { ...chunking },
+            loading: { ...loading },
+          },
+        }))
+      );
+    }
+
+    // Remove points of chunks that disappeared from the file
+    const keptIds = new Set(planned.map(item => item.id));
+    const removed = [...storedVectors.keys()].filter(id => !keptIds.has(id)).length;
+    if (removed > 0) {
+      await this.qdrantService.deleteByFilter(collection, {
+        must: sourceFilter(source).must,
+        must_not: [{ has_id: [...keptIds] }]
+      });
+    }
+
+    return {
+      status: storedVectors.size > 0 ? 'updated' : 'added',
+      chunks: planned.length,
+      embedded: new Set(pendingByVector.flat().map(item => item.id)).size,
+      removed,
+      warnings,
+    };
+  }
+
+  /**
+   * Assigns deterministic ids to chunks. Repeated identical chunks within a file
+   * are told apart by their occurrence number.
+   */
+  private planChunks(source: string, chunks: TextChunk[]): PlannedChunk[] {
+    const occurrences = new Map<string, number>();
+
+    return chunks.map(chunk => {
+      const chunkHash = hashContent(chunk.text);
+      const occurrence = occurrences.get(chunkHash) ?? 0;
+      occurrences.set(chunkHash, occurrence + 1);
+
+      return {
+        id: uuidv5(`${source}\n${chunkHash}\n${occurrence}`, POINT_ID_NAMESPACE),
+        chunkHash,
+        chunk,
+      };
+    });
+  }
+
+  private async getStoredFileState(
+    collection: string,
+    source: string
+  ): Promise<{ fileHash: string; ingestionKey: string } | null> {
+    const page = await this.qdrantService.scroll(collection, {
+      filter: sourceFilter(source),
+      limit: 1,
+    });
+    const payload = page.points[0]?.payload;
+    if (typeof payload?.fileHash !== 'string') {
+      return null;
+    }
+    return {
+      fileHash: payload.fileHash,
+      ingestionKey: ingestionKey(payload.chunking ?? {}, payload.loading ?? {}),
+    };
+  }
+
+  private async getStoredVectors(collection: string, source: string): Promise<Map<string, NamedVectors>> {
+    const vectors = new Map<string, NamedVectors>();
+    let offset: string | number | undefined;
+
+    do {
+      const page = await this.qdrantService.scroll(collection, {
+        filter: sourceFilter(source),
+        limit: 256,
+        offset,
+        withVector: true,
+      });
+      for (const point of page.points) {
+        if (point.vectors) {
+          vectors.set(String(point.id), point.vectors);
+        }
+      }
+      offset = page.nextOffset ?? undefined;
+    } while (offset !== undefined);
+
+    return vectors;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * A document extracted from a file, before chunking
+ */
+export interface LoadedDocument {
+  text: string;
+  // Structural metadata stored in the payload of every chunk of this document
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Options for loaders that turn records (JSON, JSONL, CSV) into documents
+ */
+export interface LoaderOptions {
+  // Record fields whose values make up the document text (default: the whole record)
+  textFields?: string[];
+  // Record fields copied into the payload of the record's chunks, under the "fields" key
+  payloadFields?: string[];
+}
+
+/**
+ * Extracts clean text and structural metadata from one file format
+ */
+export interface DocumentLoader {
+  readonly format: string;
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  // Binary formats are exempt from the binary file check
+  readonly binary: boolean;
+  load(data: Buffer, options: LoaderOptions): Promise<LoadedDocument[]>;
+}
+
+/**
+ * Builds the text and payload of a structured record (JSON object or CSV row)
+ */
+export function recordToDocument(
+  record: Record<string, unknown>,
+  options: LoaderOptions,
+  metadata: Record<string, unknown>
+): LoadedDocument {
+  const fields = options.textFields && options.textFields.length > 0
+    ? options.textFields
+    : Object.keys(record);
+
+  const text = fields
+    .filter(field => record[field] !== undefined && record[field] !== null && record[field] !== '')
+    .map(field => `${field}: ${formatValue(record[field])}`)
+    .join('\n');
+
+  const fieldsToCopy = options.payloadFields || [];
+  const copied: Record<string, unknown> = {};
+  for (const field of fieldsToCopy) {
+    if (record[field] !== undefined) {
+      copied[field] = record[field];
+    }
+  }
+
+  // Nested so record fields such as "text" or "source" cannot replace the chunk's own payload
+  return { text, metadata: fieldsToCopy.length > 0 ? { ...metadata, fields: copied } : metadata };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
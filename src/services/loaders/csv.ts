@@ -0,0 +1,69 @@
+import { DocumentLoader, LoadedDocument, LoaderOptions, recordToDocument } from './base.js';
+
+/**
+ * Loads CSV (and TSV) files with a header row, one document per data row
+ */
+export class CsvLoader implements DocumentLoader {
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  readonly binary = false;
+
+  constructor(readonly format: 'csv' | 'tsv' = 'csv') {
+    this.extensions = format === 'csv' ? ['.csv'] : ['.tsv'];
+    this.mimeTypes = format === 'csv' ? ['text/csv'] : ['text/tab-separated-values'];
+  }
+
+  async load(data: Buffer, options: LoaderOptions): Promise<LoadedDocument[]> {
+    const [header, ...rows] = parseDelimited(data.toString('utf-8'), this.format === 'csv' ? ',' : '\t');
+    if (!header) return [];
+
+    return rows
+      .map((row, index) => {
+        const record = Object.fromEntries(header.map((column, i) => [column, row[i] ?? '']));
+        return recordToDocument(record, options, { row: index + 1 });
+      })
+      .filter(doc => doc.text.length > 0);
+  }
+}
+
+/**
+ * Parses delimited text following RFC 4180 quoting rules
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some(value => value.length > 0)) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.length > 0)) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,32 @@
+import { parse } from 'node-html-parser';
+import { DocumentLoader, LoadedDocument } from './base.js';
+
+// Elements that carry page chrome or code rather than content
+const BOILERPLATE = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form';
+
+/**
+ * Extracts the readable text of an HTML page, dropping markup and boilerplate
+ * such as navigation, headers, footers and scripts
+ */
+export class HtmlLoader implements DocumentLoader {
+  readonly format = 'html';
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+  readonly binary = false;
+
+  async load(data: Buffer): Promise<LoadedDocument[]> {
+    const root = parse(data.toString('utf-8'), { comment: false });
+    const title = root.querySelector('title')?.text.trim();
+
+    root.querySelectorAll(BOILERPLATE).forEach(element => element.remove());
+    const content = root.querySelector('main') || root.querySelector('article') || root.querySelector('body') || root;
+
+    const text = content.structuredText
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+
+    return text.length > 0 ? [{ text, metadata: title ? { title } : {} }] : [];
+  }
+}
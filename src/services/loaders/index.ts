@@ -0,0 +1,48 @@
+import { extname } from 'path';
+import { DocumentLoader } from './base.js';
+import { CsvLoader } from './csv.js';
+import { HtmlLoader } from './html.js';
+import { JsonLoader, JsonlLoader } from './json.js';
+import { MarkdownLoader } from './markdown.js';
+import { PdfLoader } from './pdf.js';
+import { TextLoader } from './text.js';
+
+const textLoader = new TextLoader();
+
+const loaders: DocumentLoader[] = [
+  new MarkdownLoader(),
+  new HtmlLoader(),
+  new JsonLoader(),
+  new JsonlLoader(),
+  new CsvLoader('csv'),
+  new CsvLoader('tsv'),
+  new PdfLoader(),
+  textLoader,
+];
+
+/**
+ * Formats accepted by getDocumentLoader, besides MIME types
+ */
+export const DOCUMENT_FORMATS = loaders.map(loader => loader.format);
+
+/**
+ * Selects the loader for a file.
+ * @param path File path, whose extension picks the loader
+ * @param format Optional format name or MIME type overriding the extension
+ * @returns Matching loader, or the plain text loader for unknown extensions
+ */
+export function getDocumentLoader(path: string, format?: string): DocumentLoader {
+  if (format) {
+    const normalized = format.toLowerCase();
+    const loader = loaders.find(l => l.format === normalized || l.mimeTypes.includes(normalized));
+    if (!loader) {
+      throw new Error(`Unknown document format: ${format} (expected one of ${DOCUMENT_FORMATS.join(', ')} or a matching MIME type)`);
+    }
+    return loader;
+  }
+
+  const extension = extname(path).toLowerCase();
+  return loaders.find(loader => loader.extensions.includes(extension)) || textLoader;
+}
+
+export type { DocumentLoader, LoadedDocument, LoaderOptions } from './base.js';
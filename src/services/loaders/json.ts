@@ -0,0 +1,68 @@
+import { DocumentLoader, LoadedDocument, LoaderOptions, recordToDocument } from './base.js';
+
+/**
+ * Loads JSON files. An array becomes one document per element; any other
+ * value becomes a single document.
+ */
+export class JsonLoader implements DocumentLoader {
+  readonly format = 'json';
+  readonly extensions = ['.json'];
+  readonly mimeTypes = ['application/json'];
+  readonly binary = false;
+
+  async load(data: Buffer, options: LoaderOptions): Promise<LoadedDocument[]> {
+    let value: unknown;
+    try {
+      value = JSON.parse(data.toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const records = Array.isArray(value) ? value : [value];
+    return records
+      .map((record, index) => toDocument(record, options, { record: index }))
+      .filter(doc => doc.text.length > 0);
+  }
+}
+
+/**
+ * Loads JSON Lines files, one document per record
+ */
+export class JsonlLoader implements DocumentLoader {
+  readonly format = 'jsonl';
+  readonly extensions = ['.jsonl', '.ndjson'];
+  readonly mimeTypes = ['application/jsonl', 'application/x-ndjson'];
+  readonly binary = false;
+
+  async load(data: Buffer, options: LoaderOptions): Promise<LoadedDocument[]> {
+    const documents: LoadedDocument[] = [];
+
+    data.toString('utf-8').split(/\r?\n/).forEach((line, index) => {
+      if (line.trim().length === 0) return;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const doc = toDocument(record, options, { record: documents.length, line: index + 1 });
+      if (doc.text.length > 0) {
+        documents.push(doc);
+      }
+    });
+
+    return documents;
+  }
+}
+
+function toDocument(record: unknown, options: LoaderOptions, metadata: Record<string, unknown>): LoadedDocument {
+  if (record && typeof record === 'object' && !Array.isArray(record)) {
+    return recordToDocument(record as Record<string, unknown>, options, metadata);
+  }
+  return {
+    text: typeof record === 'string' ? record : JSON.stringify(record, null, 2),
+    metadata,
+  };
+}
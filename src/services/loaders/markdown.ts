@@ -0,0 +1,59 @@
+import { DocumentLoader, LoadedDocument } from './base.js';
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^(```|~~~)/;
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+/**
+ * Splits Markdown into one document per section, each carrying the path of
+ * headings it is nested under (e.g. ["Install", "From source"])
+ */
+export class MarkdownLoader implements DocumentLoader {
+  readonly format = 'markdown';
+  readonly extensions = ['.md', '.markdown', '.mdx'];
+  readonly mimeTypes = ['text/markdown'];
+  readonly binary = false;
+
+  async load(data: Buffer): Promise<LoadedDocument[]> {
+    const lines = data.toString('utf-8').replace(FRONT_MATTER, '').split(/\r?\n/);
+    const documents: LoadedDocument[] = [];
+    const headings: string[] = [];
+    let section: string[] = [];
+    let fence: string | null = null;
+
+    const flush = () => {
+      const text = section.join('\n').trim();
+      if (text.length > 0) {
+        documents.push({
+          text,
+          metadata: headings.length > 0 ? { headingPath: [...headings] } : {},
+        });
+      }
+      section = [];
+    };
+
+    for (const line of lines) {
+      // Lines starting with # inside fenced code are not headings
+      const fenceMatch = line.match(FENCE);
+      if (fenceMatch) {
+        fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      }
+
+      const heading = fence === null ? line.match(HEADING) : null;
+      if (heading) {
+        flush();
+        const level = heading[1].length;
+        headings.splice(level - 1);
+        while (headings.length < level - 1) headings.push('');
+        headings.push(heading[2]);
+      }
+      section.push(line);
+    }
+    flush();
+
+    // Drop placeholders for skipped heading levels
+    return documents.map(doc => Array.isArray(doc.metadata.headingPath)
+      ? { ...doc, metadata: { headingPath: (doc.metadata.headingPath as string[]).filter(Boolean) } }
+      : doc);
+  }
+}
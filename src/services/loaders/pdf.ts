@@ -0,0 +1,26 @@
+import { DocumentLoader, LoadedDocument } from './base.js';
+
+/**
+ * Extracts the text layer of PDF files locally, one document per page
+ */
+export class PdfLoader implements DocumentLoader {
+  readonly format = 'pdf';
+  readonly extensions = ['.pdf'];
+  readonly mimeTypes = ['application/pdf'];
+  readonly binary = true;
+
+  async load(data: Buffer): Promise<LoadedDocument[]> {
+    // Loaded lazily so the bundled PDF.js is only parsed when a PDF is ingested
+    const { extractText, getDocumentProxy } = await import('unpdf');
+    // Verbosity 0 keeps PDF.js warnings off stdout, which carries the MCP stdio transport
+    const pdf = await getDocumentProxy(new Uint8Array(data), { verbosity: 0 });
+    const { text } = await extractText(pdf, { mergePages: false });
+
+    return text
+      .map((pageText, index) => ({
+        text: pageText.trim(),
+        metadata: { page: index + 1 },
+      }))
+      .filter(doc => doc.text.length > 0);
+  }
+}
@@ -0,0 +1,15 @@
+import { DocumentLoader, LoadedDocument } from './base.js';
+
+/**
+ * Fallback loader reading the file as plain UTF-8 text
+ */
+export class TextLoader implements DocumentLoader {
+  readonly format = 'text';
+  readonly extensions = ['.txt'];
+  readonly mimeTypes = ['text/plain'];
+  readonly binary = false;
+
+  async load(data: Buffer): Promise<LoadedDocument[]> {
+    return [{ text: data.toString('utf-8'), metadata: {} }];
+  }
+}
@@ -0,0 +1,59 @@
+import { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Sends an MCP progress notification
+ */
+export type ProgressSender = (params: {
+  progressToken: ProgressToken;
+  progress: number;
+  total?: number;
+  message?: string;
+}) => Promise<void>;
+
+/**
+ * Error raised when the client cancels the request being processed
+ */
+export class OperationCancelledError extends Error {
+  constructor(message = 'Operation cancelled by client') {
+    super(message);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+/**
+ * Throws OperationCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
+
+/**
+ * Reports progress of a long-running request to the client.
+ *
+ * Reports are dropped when the client did not supply a progress token, and
+ * values that would move progress backwards are ignored as the protocol
+ * requires progress to increase.
+ */
+export class ProgressReporter {
+  private last = -1;
+
+  constructor(
+    private send: ProgressSender,
+    private progressToken?: ProgressToken
+  ) {}
+
+  async report(progress: number, total: number, message: string): Promise<void> {
+    if (this.progressToken === undefined || progress <= this.last) {
+      return;
+    }
+    this.last = progress;
+
+    try {
+      await this.send({ progressToken: this.progressToken, progress, total, message });
+    } catch (error) {
+      console.error('Could not send progress notification:', error instanceof Error ? error.message : error);
+    }
+  }
+}
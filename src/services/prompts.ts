@@ -0,0 +1,253 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SearchMode, SearchResult } from '../types.js';
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * How a prompt retrieves its passages. `query` and `source` are templates
+ * filled with the prompt arguments like the message text.
+ */
+export interface PromptRetrieval {
+  query: string;
+  // Comma-separated source paths or glob patterns restricting the search
+  source?: string;
+  // Search each source separately, so every source contributes passages
+  perSource?: boolean;
+  // Passages retrieved, per source with perSource
+  limit?: number;
+  mode?: SearchMode;
+  diversity?: boolean;
+  collapseAdjacent?: boolean;
+  rerank?: boolean;
+}
+
+/**
+ * Prompt template answered with passages retrieved from a collection.
+ *
+ * Every prompt also takes the `collection` to search and an optional `limit`
+ * overriding `retrieval.limit`. In `template`, `{{name}}` is replaced by an
+ * argument, `{{passages}}` by the numbered passages and `{{#name}}...{{/name}}`
+ * is kept only when the argument is not empty.
+ */
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  retrieval: PromptRetrieval;
+  template: string;
+}
+
+export const DEFAULT_PROMPT_LIMIT = 8;
+
+export const COMMON_PROMPT_ARGUMENTS: PromptArgument[] = [
+  { name: 'collection', description: 'Collection to retrieve passages from', required: true },
+  { name: 'limit', description: 'Number of passages to retrieve' },
+];
+
+const CITATION_INSTRUCTIONS =
+  'Cite the passages you rely on with their numbers in brackets, e.g. [1] or [2][3]. ' +
+  'Only use information from the passages; if they do not contain the answer, say so.';
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'answer_with_context',
+    description: 'Answer a question from passages retrieved from a collection, with citations',
+    arguments: [
+      { name: 'question', description: 'Question to answer', required: true },
+    ],
+    retrieval: { query: '{{question}}', collapseAdjacent: true },
+    template:
+      'Answer the question below using the numbered passages retrieved from the "{{collection}}" collection.\n' +
+      `${CITATION_INSTRUCTIONS}\n\n` +
+      'Passages:\n\n{{passages}}\n\n' +
+      'Question: {{question}}',
+  },
+  {
+    name: 'summarize_source',
+    description: 'Summarize an indexed file, optionally focusing on a topic',
+    arguments: [
+      { name: 'source', description: 'Source path of the file to summarize', required: true },
+      { name: 'focus', description: 'Topic to focus the summary on; the beginning of the file is used without one' },
+    ],
+    retrieval: { query: '{{focus}}', source: '{{source}}', limit: 20 },
+    template:
+      'Summarize {{source}} from the "{{collection}}" collection using the numbered passages below.' +
+      '{{#focus}} Focus on: {{focus}}.{{/focus}}\n' +
+      `${CITATION_INSTRUCTIONS}\n\n` +
+      'Passages:\n\n{{passages}}',
+  },
+  {
+    name: 'compare_sources',
+    description: 'Compare what several indexed files say about a question',
+    arguments: [
+      { name: 'question', description: 'Question or topic to compare the sources on', required: true },
+      { name: 'sources', description: 'Comma-separated source paths or glob patterns to compare', required: true },
+    ],
+    retrieval: { query: '{{question}}', source: '{{sources}}', perSource: true, limit: 4, collapseAdjacent: true },
+    template:
+      'Compare how the following sources from the "{{collection}}" collection address the question below: {{sources}}.\n' +
+      'Point out where they agree, where they differ and what only one of them covers. ' +
+      `${CITATION_INSTRUCTIONS}\n\n` +
+      'Passages:\n\n{{passages}}\n\n' +
+      'Question: {{question}}',
+  },
+];
+
+const SEARCH_MODES: SearchMode[] = ['dense', 'sparse', 'hybrid'];
+
+/**
+ * Fills a template with prompt arguments
+ * @param template Template text with `{{name}}` placeholders and `{{#name}}...{{/name}}` sections
+ * @param values Values by placeholder name; missing values render empty
+ */
+export function renderTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, section: string) =>
+      values[name] ? section : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Splits a comma-separated list of source paths or patterns
+ */
+export function splitSources(value: string): string[] {
+  return value.split(',').map(source => source.trim()).filter(source => source !== '');
+}
+
+/**
+ * Formats search results or stored chunks as numbered passages headed by their source location
+ */
+export function formatPassages(results: Array<Pick<SearchResult, 'payload'>>): string {
+  if (results.length === 0) {
+    return '(No passages found.)';
+  }
+
+  return results.map((result, index) => {
+    const text = result.payload.text || result.payload.content || JSON.stringify(result.payload);
+    const source = result.payload.source || result.payload.metadata?.source;
+    const { startLine, endLine, symbol } = result.payload;
+    let heading = `[${index + 1}]`;
+    if (source) {
+      heading += ` ${source}${typeof startLine === 'number' ? `:${startLine}-${endLine}` : ''}`;
+      heading += symbol ? ` (${symbol})` : '';
+    }
+    return `${heading}\n${text}`;
+  }).join('\n\n');
+}
+
+/**
+ * Validates a prompt template, e.g. one loaded from the prompts directory
+ * @returns Every problem found, empty when the template is valid
+ */
+export function validatePromptTemplate(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['template must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const t = value as Record<string, unknown>;
+  if (typeof t.name !== 'string' || !/^[\w-]+$/.test(t.name)) {
+    errors.push('name must be a string of letters, digits, "_" and "-"');
+  }
+  if (typeof t.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (typeof t.template !== 'string') {
+    errors.push('template must be a string');
+  }
+
+  if (t.arguments !== undefined && !Array.isArray(t.arguments)) {
+    errors.push('arguments must be an array');
+  }
+  (Array.isArray(t.arguments) ? t.arguments : []).forEach((argument: unknown, index: number) => {
+    const a = argument as Record<string, unknown> | null;
+    if (!a || typeof a.name !== 'string') {
+      errors.push(`arguments[${index}].name must be a string`);
+    } else if (COMMON_PROMPT_ARGUMENTS.some(common => common.name === a.name)) {
+      errors.push(`arguments[${index}]: "${a.name}" is an argument of every prompt`);
+    }
+  });
+
+  const r = t.retrieval as Record<string, unknown> | undefined;
+  if (!r || typeof r !== 'object' || Array.isArray(r)) {
+    errors.push('retrieval must be an object');
+  } else {
+    if (typeof r.query !== 'string') {
+      errors.push('retrieval.query must be a string');
+    }
+    if (r.source !== undefined && typeof r.source !== 'string') {
+      errors.push('retrieval.source must be a string');
+    }
+    if (r.limit !== undefined && (!Number.isInteger(r.limit) || (r.limit as number) < 1)) {
+      errors.push('retrieval.limit must be a positive integer');
+    }
+    if (r.mode !== undefined && !SEARCH_MODES.includes(r.mode as SearchMode)) {
+      errors.push(`retrieval.mode must be one of ${SEARCH_MODES.join(', ')}`);
+    }
+    for (const flag of ['perSource', 'diversity', 'collapseAdjacent', 'rerank']) {
+      if (r[flag] !== undefined && typeof r[flag] !== 'boolean') {
+        errors.push(`retrieval.${flag} must be a boolean`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Built-in prompt templates plus the ones defined in a prompts directory.
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptTemplate>();
+
+  constructor(templates: PromptTemplate[] = []) {
+    for (const template of [...BUILTIN_PROMPTS, ...templates]) {
+      this.prompts.set(template.name, { ...template, arguments: template.arguments ?? [] });
+    }
+  }
+
+  /**
+   * Loads every `*.json` template of a directory; a template named like a
+   * built-in one replaces it. A missing directory only yields the built-ins.
+   * @throws Error naming the file if a template cannot be parsed or is invalid
+   */
+  static fromDirectory(directory: string): PromptRegistry {
+    if (!existsSync(directory)) {
+      return new PromptRegistry();
+    }
+
+    const templates = readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => {
+        const path = join(directory, file);
+        let template: unknown;
+        try {
+          template = JSON.parse(readFileSync(path, 'utf8'));
+        } catch (error) {
+          throw new Error(`Prompt template ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+        const errors = validatePromptTemplate(template);
+        if (errors.length > 0) {
+          throw new Error(`Invalid prompt template ${path}: ${errors.join('; ')}`);
+        }
+        return template as PromptTemplate;
+      });
+
+    return new PromptRegistry(templates);
+  }
+
+  list(): PromptTemplate[] {
+    return [...this.prompts.values()];
+  }
+
+  get(name: string): PromptTemplate | undefined {
+    return this.prompts.get(name);
+  }
+}
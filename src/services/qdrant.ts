@@ -1,5 +1,36 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { QdrantService, SearchResult } from '../types.js';
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import {
+  CollectionAlias,
+  CollectionDetails,
+  CollectionInfo,
+  CollectionOptions,
+  FacetHit,
+  NamedVectors,
+  PayloadSchemaType,
+  PointDocument,
+  PointId,
+  QdrantFilter,
+  QdrantService,
+  QuantizationOptions,
+  ScrollOptions,
+  ScrollPage,
+  SearchOptions,
+  SearchResult,
+  SparseVector,
+  VectorParams
+} from '../types.js';
+import { SPARSE_VECTOR_NAME } from './sparse.js';
+
+// Name Qdrant uses for the unnamed (default) dense vector
+export const DEFAULT_VECTOR_NAME = '';
+
+/**
+ * Payload fields indexed on every collection so that filtering on them stays fast
+ */
+export const DEFAULT_PAYLOAD_INDEXES: Record<string, PayloadSchemaType> = {
+  source: 'keyword',
+  index: 'integer',
+};
 
 /**
  * Qdrant service implementation using the official JavaScript client
@@ -35,16 +66,41 @@ export class DefaultQdrantService implements QdrantService {
   /**
    * Creates a new collection with specified vector configuration
    * @param name Collection name
-   * @param vectorSize Dimension of vectors to store
+   * @param vectors Dimension of the unnamed vector, or dimensions of named vectors by name
+   * @param options Optional collection features such as a BM25 sparse vector,
+   *   distance, index, quantization and storage settings; omitted settings keep
+   *   the Qdrant defaults, and the distance defaults to Cosine
    */
-  async createCollection(name: string, vectorSize: number): Promise<void> {
+  async createCollection(
+    name: string,
+    vectors: number | Record<string, number>,
+    options: CollectionOptions = {}
+  ): Promise<void> {
     try {
+      const { hnsw } = options;
+      const vectorParams = (size: number) => ({
+        size,
+        distance: options.distance ?? 'Cosine',
+        on_disk: options.onDiskVectors,
+      });
       await this.client.createCollection(name, {
-        vectors: {
-          size: vectorSize,
-          distance: 'Cosine',
-        }
+        vectors: typeof vectors === 'number'
+          ? vectorParams(vectors)
+          : Object.fromEntries(Object.entries(vectors).map(([vectorName, size]) => [vectorName, vectorParams(size)])),
+        sparse_vectors: options.sparse
+          ? { [SPARSE_VECTOR_NAME]: { modifier: 'idf' } }
+          : undefined,
+        hnsw_config: hnsw
+          ? { m: hnsw.m, ef_construct: hnsw.efConstruct, on_disk: hnsw.onDisk }
+          : undefined,
+        quantization_config: options.quantization
+          ? quantizationConfig(options.quantization)
+          : undefined,
+        on_disk_payload: options.onDiskPayload,
+        shard_number: options.shardNumber,
+        replication_factor: options.replicationFactor,
       });
+      await this.ensurePayloadIndexes(name);
     } catch (error) {
       return this.handleQdrantError(error, 'create collection');
     }
@@ -57,14 +113,19 @@ export class DefaultQdrantService implements QdrantService {
    */
   async addDocuments(
     collection: string,
-    documents: { id: string; vector: number[]; payload: Record<string, any> }[]
+    documents: PointDocument[]
   ): Promise<void> {
     try {
-      const points = documents.map(doc => ({
-        id: doc.id,
-        vector: doc.vector,
-        payload: doc.payload,
-      }));
+      const points = documents.map(doc => {
+        const dense = Array.isArray(doc.vector) ? { [DEFAULT_VECTOR_NAME]: doc.vector } : doc.vector;
+        return {
+          id: doc.id,
+          vector: doc.sparseVector
+            ? { ...dense, [SPARSE_VECTOR_NAME]: doc.sparseVector }
+            : Array.isArray(doc.vector) ? doc.vector : dense,
+          payload: doc.payload,
+        };
+      });
 
       await this.client.upsert(collection, {
         wait: true,
@@ -92,70 +153,403 @@ export class DefaultQdrantService implements QdrantService {
    * @param collection Collection name to search in
    * @param vector Query vector
    * @param limit Maximum number of results
+   * @param filter Optional payload filter restricting the candidates
+   * @param options Named vector to search and whether to return it with each result
    * @returns Array of search results with scores and payloads
    */
   async search(
     collection: string,
     vector: number[],
-    limit: number = 10
+    limit: number = 10,
+    filter?: QdrantFilter,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     try {
       const response = await this.client.search(collection, {
-        vector,
+        vector: options.using ? { name: options.using, vector } : vector,
         limit,
+        filter,
         with_payload: true,
-        with_vector: false // We don't need vectors in search results
+        with_vector: options.withVector ?? false
       });
 
       return response.map(point => ({
-        id: String(point.id),
+        id: point.id,
         score: point.score,
         payload: point.payload || {},
-        vector: point.vector as number[] || undefined
+        vector: denseVector(point.vector, options.using)
       }));
     } catch (error) {
       return this.handleQdrantError(error, 'search collection');
     }
   }
 
+  /**
+   * Searches with the query API using the dense vector, the BM25 sparse vector or both.
+   * When both are given the two candidate lists are fused with reciprocal rank fusion.
+   * @param collection Collection name to search in
+   * @param query Dense and/or sparse query vectors
+   * @param limit Maximum number of results
+   * @param filter Optional payload filter restricting the candidates
+   * @param options Named dense vector to search and whether to return it with each result
+   * @returns Array of search results with scores and payloads
+   */
+  async hybridSearch(
+    collection: string,
+    query: { vector?: number[]; sparseVector?: SparseVector },
+    limit: number = 10,
+    filter?: QdrantFilter,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    try {
+      const { vector, sparseVector } = query;
+      if (!vector && !sparseVector) {
+        throw new Error('A dense or sparse query vector is required');
+      }
+
+      const using = options.using;
+      const request = vector && sparseVector
+        ? {
+            prefetch: [
+              { query: vector, using, limit: limit * 4, filter },
+              { query: sparseVector, using: SPARSE_VECTOR_NAME, limit: limit * 4, filter },
+            ],
+            query: { fusion: 'rrf' as const },
+          }
+        : vector
+          ? { query: vector, using }
+          : { query: sparseVector, using: SPARSE_VECTOR_NAME };
+
+      const response = await this.client.query(collection, {
+        ...request,
+        filter,
+        limit,
+        with_payload: true,
+        with_vector: options.withVector ?? false
+      });
+
+      return response.points.map(point => ({
+        id: point.id,
+        score: point.score,
+        payload: point.payload || {},
+        vector: denseVector(point.vector, using)
+      }));
+    } catch (error) {
+      return this.handleQdrantError(error, 'query collection');
+    }
+  }
+
+  /**
+   * Reads one page of points from a collection, optionally restricted by a payload filter
+   * @param collection Collection name
+   * @param options Filter, page size, offset and whether to include vectors
+   * @returns Points in the page and the offset of the next page (null when exhausted)
+   */
+  async scroll(collection: string, options: ScrollOptions = {}): Promise<ScrollPage> {
+    try {
+      const response = await this.client.scroll(collection, {
+        filter: options.filter,
+        limit: options.limit ?? 100,
+        offset: options.offset,
+        with_payload: true,
+        with_vector: options.withVector ?? false
+      });
+
+      const nextOffset = response.next_page_offset;
+      return {
+        points: response.points.map(point => ({
+          id: point.id,
+          payload: point.payload || {},
+          vector: denseVector(point.vector),
+          vectors: options.withVector ? denseVectors(point.vector) : undefined,
+        })),
+        nextOffset: typeof nextOffset === 'string' || typeof nextOffset === 'number' ? nextOffset : null
+      };
+    } catch (error) {
+      return this.handleQdrantError(error, 'scroll collection');
+    }
+  }
+
+  /**
+   * Deletes every point matching a payload filter
+   * @param collection Collection name
+   * @param filter Qdrant filter selecting the points to delete
+   */
+  async deleteByFilter(collection: string, filter: QdrantFilter): Promise<void> {
+    try {
+      await this.client.delete(collection, {
+        wait: true,
+        filter
+      });
+    } catch (error) {
+      return this.handleQdrantError(error, 'delete points');
+    }
+  }
+
+  /**
+   * Deletes points by id. Ids that do not exist are ignored.
+   * @param collection Collection name
+   * @param ids Ids of the points to delete
+   */
+  async deletePoints(collection: string, ids: PointId[]): Promise<void> {
+    try {
+      await this.client.delete(collection, {
+        wait: true,
+        points: ids
+      });
+    } catch (error) {
+      return this.handleQdrantError(error, 'delete points');
+    }
+  }
+
+  /**
+   * Counts the points of a collection exactly
+   * @param collection Collection name
+   * @param filter Optional payload filter restricting the points counted
+   * @returns Number of matching points
+   */
+  async countPoints(collection: string, filter?: QdrantFilter): Promise<number> {
+    try {
+      const response = await this.client.count(collection, {
+        filter,
+        exact: true
+      });
+      return response.count;
+    } catch (error) {
+      return this.handleQdrantError(error, 'count points');
+    }
+  }
+
+  /**
+   * Counts distinct values of a payload field. The field must have a payload index.
+   * @param collection Collection name
+   * @param key Payload field to facet on
+   * @param options Optional filter and maximum number of distinct values
+   * @returns Distinct values with the number of points holding each one
+   */
+  async facet(
+    collection: string,
+    key: string,
+    options: { filter?: QdrantFilter; limit?: number } = {}
+  ): Promise<FacetHit[]> {
+    try {
+      const response = await this.client.facet(collection, {
+        key,
+        filter: options.filter,
+        limit: options.limit ?? 10000,
+        exact: true
+      });
+      return response.hits;
+    } catch (error) {
+      return this.handleQdrantError(error, 'facet collection');
+    }
+  }
+
+  /**
+   * Creates the default payload indexes that are missing on a collection
+   * @param collection Collection name
+   */
+  async ensurePayloadIndexes(collection: string): Promise<void> {
+    try {
+      const info = await this.client.getCollection(collection);
+      const existing = info.payload_schema || {};
+
+      for (const [field, schema] of Object.entries(DEFAULT_PAYLOAD_INDEXES)) {
+        if (!(field in existing)) {
+          await this.client.createPayloadIndex(collection, {
+            wait: true,
+            field_name: field,
+            field_schema: schema
+          });
+        }
+      }
+    } catch (error) {
+      return this.handleQdrantError(error, 'create payload indexes');
+    }
+  }
+
   /**
    * Checks if a collection exists
-   * @param name Collection name to check
-   * @returns True if collection exists, false otherwise
+   * @param name Collection name or alias to check
+   * @returns True if collection or alias exists, false otherwise
    */
   async collectionExists(name: string): Promise<boolean> {
     try {
       const collections = await this.listCollections();
-      return collections.includes(name);
+      if (collections.includes(name)) {
+        return true;
+      }
+      const aliases = await this.listAliases();
+      return aliases.some(alias => alias.alias === name);
     } catch (error) {
       console.warn(`Could not check if collection ${name} exists:`, error);
       return false;
     }
   }
 
+  /**
+   * Lists every alias with the collection it points to
+   */
+  async listAliases(): Promise<CollectionAlias[]> {
+    try {
+      const response = await this.client.getAliases();
+      return response.aliases.map(alias => ({ alias: alias.alias_name, collection: alias.collection_name }));
+    } catch (error) {
+      return this.handleQdrantError(error, 'list aliases');
+    }
+  }
+
+  /**
+   * Points an alias at a collection, replacing any previous target in one atomic update
+   * @param alias Alias name
+   * @param collection Collection the alias resolves to
+   */
+  async setAlias(alias: string, collection: string): Promise<void> {
+    try {
+      const exists = (await this.listAliases()).some(existing => existing.alias === alias);
+      await this.client.updateCollectionAliases({
+        actions: [
+          ...(exists ? [{ delete_alias: { alias_name: alias } }] : []),
+          { create_alias: { alias_name: alias, collection_name: collection } },
+        ],
+      });
+    } catch (error) {
+      return this.handleQdrantError(error, 'set alias');
+    }
+  }
+
   /**
    * Gets collection information including vector configuration
    * @param name Collection name
    * @returns Collection info or null if not found
    */
-  async getCollectionInfo(name: string): Promise<{ vectorSize: number; distance: string } | null> {
+  async getCollectionInfo(name: string): Promise<CollectionInfo | null> {
     try {
       const info = await this.client.getCollection(name);
-      if (info.config?.params?.vectors) {
-        const vectorConfig = info.config.params.vectors;
-        if (typeof vectorConfig === 'object' && 'size' in vectorConfig) {
-          return {
-            vectorSize: vectorConfig.size as number,
-            distance: (vectorConfig.distance as string) || 'Cosine'
-          };
-        }
+      if (!info.config?.params?.vectors) {
+        return null;
       }
-      return null;
+      return {
+        vectors: vectorParams(info.config.params.vectors),
+        sparseVectors: Object.keys(info.config.params.sparse_vectors || {})
+      };
     } catch (error) {
       console.warn(`Could not get collection info for ${name}:`, error);
       return null;
     }
   }
+
+  /**
+   * Gets statistics and configuration of a collection
+   * @param name Collection name
+   * @returns Point counts, status, vector configuration and payload indexes
+   */
+  async describeCollection(name: string): Promise<CollectionDetails> {
+    try {
+      const info = await this.client.getCollection(name);
+      const vectors = info.config.params.vectors ? vectorParams(info.config.params.vectors) : {};
+
+      const payloadIndexes: CollectionDetails['payloadIndexes'] = {};
+      for (const [field, index] of Object.entries(info.payload_schema || {})) {
+        if (index) {
+          payloadIndexes[field] = { type: index.data_type, points: index.points };
+        }
+      }
+
+      return {
+        status: info.status,
+        optimizerStatus: typeof info.optimizer_status === 'string'
+          ? info.optimizer_status
+          : `error: ${info.optimizer_status.error}`,
+        pointsCount: info.points_count ?? 0,
+        indexedVectorsCount: info.indexed_vectors_count ?? 0,
+        segmentsCount: info.segments_count,
+        vectors,
+        sparseVectors: Object.keys(info.config.params.sparse_vectors || {}),
+        payloadIndexes,
+        hnsw: {
+          m: info.config.hnsw_config.m,
+          efConstruct: info.config.hnsw_config.ef_construct,
+          onDisk: info.config.hnsw_config.on_disk ?? false,
+        },
+        quantization: (info.config.quantization_config as Record<string, unknown> | null | undefined) ?? null,
+        onDiskPayload: info.config.params.on_disk_payload ?? false,
+        shardNumber: info.config.params.shard_number ?? 1,
+        replicationFactor: info.config.params.replication_factor ?? 1,
+      };
+    } catch (error) {
+      return this.handleQdrantError(error, 'describe collection');
+    }
+  }
+}
+
+/**
+ * Reads the dense vector configuration of a collection. A single unnamed vector
+ * has its size at the top level and is keyed by "", named vectors are keyed by name.
+ */
+function vectorParams(config: object): Record<string, VectorParams> {
+  const toParams = (params: Record<string, unknown>): VectorParams => ({
+    size: params.size as number,
+    distance: (params.distance as string) || 'Cosine',
+    onDisk: (params.on_disk as boolean | null | undefined) ?? false,
+  });
+
+  if ('size' in config) {
+    return { [DEFAULT_VECTOR_NAME]: toParams(config as Record<string, unknown>) };
+  }
+
+  const vectors: Record<string, VectorParams> = {};
+  for (const [vectorName, params] of Object.entries(config)) {
+    if (params && typeof params === 'object' && 'size' in params) {
+      vectors[vectorName] = toParams(params);
+    }
+  }
+  return vectors;
+}
+
+/**
+ * Translates quantization options to Qdrant's quantization config
+ */
+function quantizationConfig(options: QuantizationOptions): Schemas['QuantizationConfig'] {
+  switch (options.type) {
+    case 'scalar':
+      return { scalar: { type: 'int8', quantile: options.quantile, always_ram: options.alwaysRam } };
+    case 'binary':
+      return { binary: { always_ram: options.alwaysRam } };
+    case 'product':
+      return { product: { compression: options.compression ?? 'x16', always_ram: options.alwaysRam } };
+  }
+}
+
+/**
+ * Extracts one dense vector from a point, which Qdrant returns as a plain array
+ * or, with named or sparse vectors, keyed by vector name
+ * @param name Vector name; the unnamed vector when omitted
+ */
+function denseVector(vector: unknown, name: string = DEFAULT_VECTOR_NAME): number[] | undefined {
+  if (Array.isArray(vector)) {
+    return name === DEFAULT_VECTOR_NAME ? vector as number[] : undefined;
+  }
+  if (vector && typeof vector === 'object') {
+    const named = (vector as Record<string, unknown>)[name];
+    return Array.isArray(named) ? named as number[] : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Extracts every dense vector of a point by name, leaving out sparse vectors
+ */
+function denseVectors(vector: unknown): NamedVectors | undefined {
+  if (Array.isArray(vector)) {
+    return { [DEFAULT_VECTOR_NAME]: vector as number[] };
+  }
+  if (vector && typeof vector === 'object') {
+    return Object.fromEntries(
+      Object.entries(vector as Record<string, unknown>).filter(([, value]) => Array.isArray(value))
+    ) as NamedVectors;
+  }
+  return undefined;
 }
 
 /**
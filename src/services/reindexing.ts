@@ -0,0 +1,164 @@
+import { CollectionOptions, EmbeddingGenerator, NamedVectors, PointId, QdrantService } from '../types.js';
+import { CollectionMetadataStore, EmbeddingMetadata } from './collection-metadata.js';
+import { createCollectionWithMetadata } from './indexing.js';
+import { OperationCancelledError, throwIfCancelled } from './progress.js';
+import { Bm25Encoder } from './sparse.js';
+import { VectorValidationService } from './validation.js';
+
+export const DEFAULT_REINDEX_BATCH_SIZE = 64;
+
+export interface ReindexRequest {
+  source: string;
+  target: string;
+  // Embedding service of each dense vector of the target by vector name; "" is the unnamed vector
+  embeddingServices: Record<string, EmbeddingGenerator>;
+  // Store BM25 sparse vectors in the target
+  sparse: boolean;
+  // Settings of the target when the reindex creates it
+  collectionOptions?: CollectionOptions;
+  // Source points read, embedded and written per batch
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+export interface ReindexResult {
+  status: 'completed' | 'cancelled';
+  // Whether the call continued an earlier, unfinished reindex
+  resumed: boolean;
+  copied: number;
+  // Source points without text, which cannot be re-embedded
+  skipped: number;
+  total: number;
+  warnings: string[];
+}
+
+/**
+ * Copies a collection into a new one, re-embedding the stored text of every point
+ * with other embedding models.
+ *
+ * Points keep their ids and payloads, so incremental indexing carries on in the
+ * new collection. Progress is checkpointed in the target's metadata record after
+ * every batch; calling again with the same source and target resumes after the
+ * last written batch.
+ */
+export class CollectionReindexer {
+  private sparseEncoder = new Bm25Encoder();
+
+  constructor(
+    private qdrantService: QdrantService,
+    private validationService: VectorValidationService,
+    private metadataStore: CollectionMetadataStore
+  ) {}
+
+  /**
+   * Tells whether a collection is the target of an unfinished reindex from a source
+   */
+  async isUnfinishedReindex(source: string, target: string): Promise<boolean> {
+    const metadata = await this.metadataStore.get(target);
+    return metadata?.reindex?.source === source;
+  }
+
+  /**
+   * Reindexes a collection, creating the target or resuming an unfinished reindex into it.
+   *
+   * Cancellation is honored between batches; every written batch is checkpointed.
+   * @throws Error if the target exists without being an unfinished reindex of the source
+   */
+  async reindex(request: ReindexRequest): Promise<ReindexResult> {
+    const { source, target, embeddingServices, sparse, signal, onProgress } = request;
+    const batchSize = request.batchSize ?? DEFAULT_REINDEX_BATCH_SIZE;
+    const vectorNames = Object.keys(embeddingServices);
+    const unnamed = vectorNames.length === 1 && vectorNames[0] === '';
+
+    const resumed = await this.qdrantService.collectionExists(target);
+    if (resumed && !await this.isUnfinishedReindex(source, target)) {
+      throw new Error(`Collection ${target} already exists and is not an unfinished reindex of ${source}`);
+    }
+    if (!resumed) {
+      await createCollectionWithMetadata(
+        this.qdrantService,
+        this.metadataStore,
+        target,
+        embeddingServices,
+        { ...request.collectionOptions, sparse }
+      );
+      // Marks the new collection as a reindex target, so a cancelled first batch can be resumed
+      await this.metadataStore.set(target, {
+        ...(await this.metadataStore.get(target))!,
+        reindex: { source, copied: 0, skipped: 0 },
+      });
+    }
+
+    const stored = await this.metadataStore.get(target);
+    const { reindex: checkpoint, ...metadata } = stored as EmbeddingMetadata;
+    let copied = checkpoint?.copied ?? 0;
+    let skipped = checkpoint?.skipped ?? 0;
+    let offset: PointId | undefined = checkpoint?.nextOffset ?? undefined;
+    // A null offset means every page was written before the checkpoint could be dropped
+    const finished = checkpoint?.nextOffset === null;
+
+    const total = await this.qdrantService.countPoints(source);
+    const warnings: string[] = [];
+
+    try {
+      while (!finished) {
+        throwIfCancelled(signal);
+
+        const page = await this.qdrantService.scroll(source, { limit: batchSize, offset });
+        const points = page.points.filter(point => typeof (point.payload.text ?? point.payload.content) === 'string');
+        skipped += page.points.length - points.length;
+        const texts = points.map(point => String(point.payload.text ?? point.payload.content));
+
+        const vectors: NamedVectors[] = points.map(() => ({}));
+        if (points.length > 0) {
+          for (const name of vectorNames) {
+            const embeddingService = embeddingServices[name];
+            const embeddings = await embeddingService.generateEmbeddings(texts, { signal });
+            const vectorValidation = this.validationService.validateVectorData(
+              embeddings,
+              embeddingService.vectorSize
+            );
+            if (!vectorValidation.isValid) {
+              const label = name ? ` for vector "${name}"` : '';
+              throw new Error(`Vector validation failed${label}: ${vectorValidation.errors.join('; ')}`);
+            }
+            warnings.push(...vectorValidation.warnings);
+            embeddings.forEach((embedding, i) => {
+              vectors[i][name] = embedding;
+            });
+          }
+
+          // Last point at which cancelling leaves the batch unwritten
+          throwIfCancelled(signal);
+          await this.qdrantService.addDocuments(target, points.map((point, i) => ({
+            id: point.id,
+            vector: unnamed ? vectors[i][''] : vectors[i],
+            sparseVector: sparse ? this.sparseEncoder.encodeDocument(texts[i]) : undefined,
+            payload: point.payload,
+          })));
+        }
+
+        copied += points.length;
+        offset = page.nextOffset ?? undefined;
+        await this.metadataStore.set(target, {
+          ...metadata,
+          reindex: { source, nextOffset: page.nextOffset, copied, skipped },
+        });
+        onProgress?.(copied + skipped, total);
+        if (offset === undefined) {
+          break;
+        }
+      }
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        return { status: 'cancelled', resumed, copied, skipped, total, warnings };
+      }
+      throw error;
+    }
+
+    // Dropping the checkpoint marks the reindex as complete
+    await this.metadataStore.set(target, metadata);
+    return { status: 'completed', resumed, copied, skipped, total, warnings };
+  }
+}
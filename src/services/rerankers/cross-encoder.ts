@@ -0,0 +1,138 @@
+import axios from 'axios';
+import { createWriteStream, existsSync, promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { pipeline } from 'stream/promises';
+import type { Encoding, Tokenizer } from '@anush008/tokenizers';
+import type { InferenceSession } from 'onnxruntime-node';
+import { RerankRequestOptions, Reranker } from '../../types.js';
+import { throwIfCancelled } from '../progress.js';
+
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// Files fetched from the model's Hugging Face repository
+const MODEL_FILES = ['onnx/model.onnx', 'tokenizer.json'];
+const MAX_SEQUENCE_LENGTH = 512;
+const BATCH_SIZE = 16;
+
+// onnxruntime-node is CommonJS; Node exposes its exports on the default export
+async function loadOnnxRuntime(): Promise<typeof import('onnxruntime-node')> {
+  const module = await import('onnxruntime-node');
+  return module.default ?? module;
+}
+
+interface LoadedModel {
+  tokenizer: Tokenizer;
+  session: InferenceSession;
+}
+
+/**
+ * Reranker running a cross-encoder locally with ONNX Runtime, the same runtime
+ * FastEmbed uses for embeddings.
+ *
+ * The query and each document are scored together, which ranks far better than
+ * comparing separately computed embeddings. The ONNX model and tokenizer are
+ * downloaded from Hugging Face on first use and kept in the cache directory.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly provider = 'fastembed' as const;
+  private loaded: Promise<LoadedModel> | null = null;
+
+  constructor(
+    private cacheDir: string,
+    private model: string = DEFAULT_CROSS_ENCODER_MODEL
+  ) {}
+
+  get modelName(): string {
+    return this.model;
+  }
+
+  async rerank(query: string, documents: string[], options: RerankRequestOptions = {}): Promise<number[]> {
+    const { tokenizer, session } = await this.load();
+    const ort = await loadOnnxRuntime();
+    const scores: number[] = [];
+
+    for (let start = 0; start < documents.length; start += BATCH_SIZE) {
+      throwIfCancelled(options.signal);
+      const batch = documents.slice(start, start + BATCH_SIZE);
+      const encodings = await tokenizer.encodeBatch(batch.map(document => [query, document]));
+
+      // Padding makes every encoding of the batch the same length
+      const length = encodings[0].getLength();
+      const tensor = (values: (encoding: Encoding) => number[]) => new ort.Tensor(
+        'int64',
+        BigInt64Array.from(encodings.flatMap(encoding => values(encoding).map(BigInt))),
+        [batch.length, length]
+      );
+      const inputs: Record<string, InstanceType<typeof ort.Tensor>> = {
+        input_ids: tensor(encoding => encoding.getIds()),
+        attention_mask: tensor(encoding => encoding.getAttentionMask()),
+        token_type_ids: tensor(encoding => encoding.getTypeIds()),
+      };
+
+      // Models without segment embeddings (e.g. XLM-RoBERTa) take no token_type_ids
+      const feeds = Object.fromEntries(
+        session.inputNames.map(name => [name, inputs[name]])
+      );
+      const output = await session.run(feeds);
+      const logits = output[session.outputNames[0]].data as Float32Array;
+
+      // One logit per pair; models with several labels score with the first
+      const labels = logits.length / batch.length;
+      for (let i = 0; i < batch.length; i++) {
+        scores.push(logits[i * labels]);
+      }
+    }
+
+    return scores;
+  }
+
+  private load(): Promise<LoadedModel> {
+    if (!this.loaded) {
+      this.loaded = this.loadModel().catch(error => {
+        // Allow a later request to retry, e.g. after a failed download
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    const modelDir = join(this.cacheDir, this.model.replace(/\//g, '--'));
+    for (const file of MODEL_FILES) {
+      await this.download(file, join(modelDir, file));
+    }
+
+    // Dynamic imports keep the native modules out of startup when reranking is unused
+    const { Tokenizer } = await import('@anush008/tokenizers');
+    const ort = await loadOnnxRuntime();
+
+    const tokenizer = Tokenizer.fromFile(join(modelDir, 'tokenizer.json'));
+    tokenizer.setTruncation(MAX_SEQUENCE_LENGTH);
+    tokenizer.setPadding();
+
+    const session = await ort.InferenceSession.create(join(modelDir, 'onnx/model.onnx'), {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all',
+    });
+
+    return { tokenizer, session };
+  }
+
+  private async download(file: string, path: string): Promise<void> {
+    if (existsSync(path)) {
+      return;
+    }
+
+    await fs.mkdir(dirname(path), { recursive: true });
+    console.error(`Downloading reranker model file ${this.model}/${file}`);
+    const response = await axios.get(`https://huggingface.co/${this.model}/resolve/main/${file}`, {
+      responseType: 'stream',
+    });
+
+    // Write then rename so an interrupted download is not mistaken for a complete file
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await pipeline(response.data, createWriteStream(tempPath));
+    await fs.rename(tempPath, path);
+  }
+}
@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { RerankRequestOptions, Reranker } from '../../types.js';
+import { OperationCancelledError, throwIfCancelled } from '../progress.js';
+
+// Text Embeddings Inference rejects more than 32 texts per request by default
+const TEI_MAX_BATCH_SIZE = 32;
+const COHERE_MAX_BATCH_SIZE = 1000;
+const REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * Reranker calling a rerank HTTP endpoint.
+ *
+ * Supports the Text Embeddings Inference API (`POST /rerank` with `texts`,
+ * answering a list of `{index, score}`) and the Cohere API (`POST /rerank`
+ * with `documents`, answering `{results: [{index, relevance_score}]}`), which
+ * Jina, Voyage and most hosted rerankers also accept.
+ */
+export class HttpReranker implements Reranker {
+  constructor(
+    readonly provider: 'tei' | 'cohere',
+    private endpoint: string,
+    private apiKey?: string,
+    private model?: string
+  ) {
+    if (!endpoint) {
+      throw new Error(`Reranker endpoint is required for ${provider}`);
+    }
+    if (provider === 'cohere' && !model) {
+      throw new Error('Reranker model is required for the Cohere API');
+    }
+  }
+
+  get modelName(): string {
+    return this.model || '';
+  }
+
+  async rerank(query: string, documents: string[], options: RerankRequestOptions = {}): Promise<number[]> {
+    const batchSize = this.provider === 'tei' ? TEI_MAX_BATCH_SIZE : COHERE_MAX_BATCH_SIZE;
+    const scores: number[] = [];
+
+    for (let start = 0; start < documents.length; start += batchSize) {
+      throwIfCancelled(options.signal);
+      const batch = documents.slice(start, start + batchSize);
+      scores.push(...await this.requestScores(query, batch, options.signal));
+    }
+
+    return scores;
+  }
+
+  private async requestScores(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    const body = this.provider === 'tei'
+      ? { query, texts: documents, truncate: true }
+      : { model: this.model, query, documents, top_n: documents.length, return_documents: false };
+
+    let data: unknown;
+    try {
+      const response = await axios.post(`${this.endpoint.replace(/\/$/, '')}/rerank`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+      });
+      data = response.data;
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        throw new OperationCancelledError();
+      }
+      throw error;
+    }
+
+    // TEI answers a bare list, Cohere-style APIs wrap it in results
+    const results = Array.isArray(data) ? data : (data as { results?: unknown })?.results;
+    if (!Array.isArray(results)) {
+      throw new Error(`Invalid response from ${this.provider} rerank endpoint`);
+    }
+
+    const scores = new Array<number>(documents.length).fill(Number.NaN);
+    for (const result of results as Array<{ index?: unknown; score?: unknown; relevance_score?: unknown }>) {
+      const score = result.score ?? result.relevance_score;
+      if (typeof result.index !== 'number' || typeof score !== 'number') {
+        throw new Error(`Invalid result in ${this.provider} rerank response`);
+      }
+      scores[result.index] = score;
+    }
+
+    if (scores.some(score => Number.isNaN(score))) {
+      throw new Error(`${this.provider} rerank response did not score every document`);
+    }
+    return scores;
+  }
+}
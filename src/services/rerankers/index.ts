@@ -0,0 +1,28 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { Reranker, RerankerConfig } from '../../types.js';
+import { CrossEncoderReranker } from './cross-encoder.js';
+import { HttpReranker } from './http.js';
+
+export function createReranker(
+  config: RerankerConfig,
+  cacheDir: string = join(homedir(), '.cache', 'better-qdrant-mcp', 'models')
+): Reranker {
+  switch (config.type) {
+    case 'fastembed':
+      return new CrossEncoderReranker(cacheDir, config.model);
+
+    case 'tei':
+    case 'cohere':
+      if (!config.endpoint) {
+        throw new Error(`RERANKER_ENDPOINT is required for the ${config.type} reranker`);
+      }
+      return new HttpReranker(config.type, config.endpoint, config.apiKey, config.model);
+
+    default:
+      throw new Error(`Unknown reranker type: ${config.type}`);
+  }
+}
+
+export { CrossEncoderReranker, DEFAULT_CROSS_ENCODER_MODEL } from './cross-encoder.js';
+export { HttpReranker } from './http.js';
@@ -0,0 +1,69 @@
+/**
+ * URIs of the MCP resources exposed by the server:
+ * `qdrant://<collection>` for a collection and
+ * `qdrant://<collection>/source/<path>` for an indexed source document.
+ */
+
+export const RESOURCE_SCHEME = 'qdrant://';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'qdrant://{collection}',
+    name: 'Qdrant collection',
+    description: 'Statistics, configuration and indexed sources of a collection',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'qdrant://{collection}/source/{+path}',
+    name: 'Indexed document',
+    description: 'A source file reconstructed from its chunks in a collection',
+    mimeType: 'text/plain',
+  },
+];
+
+export type ResourceTarget =
+  | { type: 'collection'; collection: string }
+  | { type: 'source'; collection: string; source: string };
+
+export function collectionUri(collection: string): string {
+  return `${RESOURCE_SCHEME}${encodeURIComponent(collection)}`;
+}
+
+/**
+ * Builds the URI of a source. Path separators are kept so the URI stays readable.
+ */
+export function sourceUri(collection: string, source: string): string {
+  const path = source.split('/').map(encodeURIComponent).join('/');
+  return `${collectionUri(collection)}/source/${path}`;
+}
+
+/**
+ * Parses a resource URI
+ * @returns The collection or source it points at, or null if it is not a qdrant:// resource URI
+ */
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    return null;
+  }
+
+  const rest = uri.slice(RESOURCE_SCHEME.length);
+  const slash = rest.indexOf('/');
+  try {
+    if (slash === -1) {
+      return rest.length > 0 ? { type: 'collection', collection: decodeURIComponent(rest) } : null;
+    }
+
+    const collection = decodeURIComponent(rest.slice(0, slash));
+    const marker = '/source/';
+    if (rest.slice(slash, slash + marker.length) !== marker) {
+      return null;
+    }
+    const path = rest.slice(slash + marker.length);
+    return path.length > 0
+      ? { type: 'source', collection, source: path.split('/').map(decodeURIComponent).join('/') }
+      : null;
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
@@ -0,0 +1,210 @@
+import { PointId, SearchMode, SearchResult } from '../types.js';
+
+export type SearchOutputFormat = 'plain' | 'markdown' | 'compact';
+
+export const SEARCH_OUTPUT_FORMATS: SearchOutputFormat[] = ['plain', 'markdown', 'compact'];
+
+// Characters of text shown per result in the compact rendering
+const COMPACT_TEXT_LENGTH = 160;
+
+/**
+ * One search result as returned in the structured content of the search tool
+ */
+export interface SearchHit {
+  // Point id; derived from the source and chunk content, so it stays the same
+  // across searches and re-ingestion of unchanged text and can be cited.
+  // Integer ids of points written by other clients stay integers
+  id: PointId;
+  rank: number;
+  score: number;
+  rerankScore?: number;
+  // Chunk text, or the merged passage when the search asked for context
+  text: string;
+  source?: string;
+  // Chunk index of the hit within its source
+  index?: number;
+  // Character offsets and 1-based line range of the text in the source
+  start?: number;
+  end?: number;
+  startLine?: number;
+  endLine?: number;
+  symbol?: string;
+  // Chunk index range merged into the text, inclusive
+  context?: { fromIndex: number; toIndex: number };
+  // Every payload field, when requested
+  payload?: Record<string, any>;
+}
+
+export interface SearchOutput {
+  query: string;
+  collection: string;
+  mode: SearchMode;
+  results: SearchHit[];
+  warnings: string[];
+}
+
+/**
+ * JSON schema of SearchOutput, declared as the output schema of the search tool
+ */
+export const SEARCH_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    collection: { type: 'string' },
+    mode: { type: 'string', enum: ['dense', 'sparse', 'hybrid'] },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: {
+            type: ['string', 'integer'],
+            description: 'Point id (UUID string or unsigned integer), stable across searches; cite results by it',
+          },
+          rank: { type: 'integer', description: '1-based position in the results' },
+          score: { type: 'number' },
+          rerankScore: { type: 'number' },
+          text: { type: 'string', description: 'Chunk text, or the merged passage with contextWindow' },
+          source: { type: 'string' },
+          index: { type: 'integer', description: 'Chunk index of the hit within its source' },
+          start: { type: 'integer', description: 'Character offset of the text in the source' },
+          end: { type: 'integer' },
+          startLine: { type: 'integer', description: '1-based first line of the text, for code' },
+          endLine: { type: 'integer' },
+          symbol: { type: 'string' },
+          context: {
+            type: 'object',
+            properties: {
+              fromIndex: { type: 'integer' },
+              toIndex: { type: 'integer' },
+            },
+            required: ['fromIndex', 'toIndex'],
+          },
+          payload: { type: 'object', description: 'Every payload field, with includePayload' },
+        },
+        required: ['id', 'rank', 'score', 'text'],
+      },
+    },
+    warnings: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['query', 'collection', 'mode', 'results', 'warnings'],
+};
+
+/**
+ * Builds the structured output of a search from its ranked results
+ * @param includePayload Add every payload field to each hit
+ */
+export function toSearchOutput(
+  results: SearchResult[],
+  request: { query: string; collection: string; mode: SearchMode; includePayload?: boolean },
+  warnings: string[] = []
+): SearchOutput {
+  return {
+    query: request.query,
+    collection: request.collection,
+    mode: request.mode,
+    warnings,
+    results: results.map((result, i) => {
+      const { payload, context } = result;
+      const source = payload.source ?? payload.metadata?.source;
+      // Offsets and lines describe the returned text: the passage when there is one
+      const range = context ?? payload;
+      const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+      const hit: SearchHit = {
+        id: result.id,
+        rank: i + 1,
+        score: result.score,
+        rerankScore: result.rerankScore,
+        text: context?.text ?? String(payload.text || payload.content || JSON.stringify(payload)),
+        source: typeof source === 'string' ? source : undefined,
+        index: number(payload.index),
+        start: number(range.start),
+        end: number(range.end),
+        startLine: number(range.startLine),
+        endLine: number(range.endLine),
+        symbol: typeof payload.symbol === 'string' ? payload.symbol : undefined,
+        context: context ? { fromIndex: context.fromIndex, toIndex: context.toIndex } : undefined,
+        payload: request.includePayload ? payload : undefined,
+      };
+      // Absent fields are left out rather than sent as undefined
+      return Object.fromEntries(Object.entries(hit).filter(([, value]) => value !== undefined)) as SearchHit;
+    }),
+  };
+}
+
+/**
+ * Source of a hit as file:lines for code, so agents can jump to it
+ */
+function location(hit: SearchHit): string | undefined {
+  if (!hit.source) {
+    return undefined;
+  }
+  const lines = hit.startLine !== undefined ? `:${hit.startLine}-${hit.endLine}` : '';
+  return `${hit.source}${lines}${hit.symbol ? ` (${hit.symbol})` : ''}`;
+}
+
+function scores(hit: SearchHit): string {
+  const rerank = hit.rerankScore !== undefined ? `, Rerank score: ${hit.rerankScore.toFixed(2)}` : '';
+  return `Score: ${hit.score.toFixed(2)}${rerank}`;
+}
+
+function renderPlain(output: SearchOutput): string {
+  return output.results.map(hit => {
+    let text = `Result ${hit.rank} (${scores(hit)}):\n${hit.text}\n`;
+    const where = location(hit);
+    if (where) {
+      text += `Source: ${where}\n`;
+    }
+    if (hit.context) {
+      text += `Context: chunks ${hit.context.fromIndex}-${hit.context.toIndex} around chunk ${hit.index}\n`;
+    }
+    return `${text}ID: ${hit.id}\n`;
+  }).join('\n');
+}
+
+/**
+ * Results as sections whose footnotes cite the source and point id
+ */
+function renderMarkdown(output: SearchOutput): string {
+  const sections = output.results.map(hit => {
+    const fence = hit.startLine !== undefined ? '```' : '';
+    const body = fence ? `${fence}\n${hit.text}\n${fence}` : hit.text;
+    return `### Result ${hit.rank}[^${hit.rank}]\n\n_${scores(hit)}_\n\n${body}`;
+  });
+  const footnotes = output.results.map(hit => {
+    const chunks = hit.context
+      ? `, chunks ${hit.context.fromIndex}-${hit.context.toIndex}`
+      : hit.index !== undefined ? `, chunk ${hit.index}` : '';
+    const where = location(hit);
+    return `[^${hit.rank}]: ${where ? `\`${where}\`${chunks}, ` : ''}id \`${hit.id}\``;
+  });
+  return `${sections.join('\n\n')}\n\n${footnotes.join('\n')}\n`;
+}
+
+/**
+ * One line per result: rank, score, location and the start of the text
+ */
+function renderCompact(output: SearchOutput): string {
+  return output.results.map(hit => {
+    const flat = hit.text.replace(/\s+/g, ' ').trim();
+    const text = flat.length > COMPACT_TEXT_LENGTH ? `${flat.slice(0, COMPACT_TEXT_LENGTH)}…` : flat;
+    const score = (hit.rerankScore ?? hit.score).toFixed(2);
+    return `${hit.rank}. [${score}] ${location(hit) ?? hit.id}: ${text}`;
+  }).join('\n') + '\n';
+}
+
+/**
+ * Renders search output as the text content of the search tool
+ */
+export function renderSearchOutput(output: SearchOutput, format: SearchOutputFormat = 'plain'): string {
+  let text = output.results.length === 0
+    ? 'No results found.'
+    : format === 'markdown' ? renderMarkdown(output)
+    : format === 'compact' ? renderCompact(output)
+    : renderPlain(output);
+
+  if (output.warnings.length > 0) {
+    text += '\nQuery vector warnings:\n' + output.warnings.join('\n');
+  }
+  return text;
+}
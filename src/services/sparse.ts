@@ -0,0 +1,99 @@
+import { SparseVector } from '../types.js';
+
+/**
+ * Name of the sparse vector holding BM25 term weights in hybrid collections
+ */
+export const SPARSE_VECTOR_NAME = 'bm25';
+
+// BM25 term frequency saturation and length normalization parameters
+const K1 = 1.2;
+const B = 0.75;
+// Typical chunk length in tokens, used in place of the corpus average document length
+const AVERAGE_DOCUMENT_LENGTH = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into',
+  'is', 'it', 'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then',
+  'there', 'these', 'they', 'this', 'to', 'was', 'will', 'with',
+]);
+
+/**
+ * Local BM25 encoder producing sparse vectors, with no network or model required.
+ *
+ * Only the term frequency part of BM25 is computed here; the collection's sparse
+ * vector is created with the `idf` modifier so Qdrant applies inverse document
+ * frequency at query time from its own statistics.
+ */
+export class Bm25Encoder {
+  /**
+   * Encodes a document chunk into BM25 term weights
+   */
+  encodeDocument(text: string): SparseVector {
+    const tokens = tokenize(text);
+    const frequencies = countTerms(tokens);
+    const lengthNorm = 1 - B + B * (tokens.length / AVERAGE_DOCUMENT_LENGTH);
+
+    return toSparseVector(frequencies, tf => (tf * (K1 + 1)) / (tf + K1 * lengthNorm));
+  }
+
+  /**
+   * Encodes a query; every distinct term gets the same weight
+   */
+  encodeQuery(text: string): SparseVector {
+    return toSparseVector(countTerms(tokenize(text)), () => 1);
+  }
+}
+
+/**
+ * Splits text into lowercase terms. Identifiers are kept whole and also split
+ * into their camelCase / snake_case parts, so both `getUserById` and `user` match.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+    const parts = word
+      .split('_')
+      .flatMap(part => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u))
+      .filter(part => part.length > 0);
+
+    const whole = word.toLowerCase();
+    if (!STOP_WORDS.has(whole)) {
+      tokens.push(whole);
+    }
+    if (parts.length > 1) {
+      tokens.push(...parts.map(part => part.toLowerCase()).filter(part => !STOP_WORDS.has(part)));
+    }
+  }
+
+  return tokens;
+}
+
+function countTerms(tokens: string[]): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const token of tokens) {
+    const index = hashTerm(token);
+    frequencies.set(index, (frequencies.get(index) || 0) + 1);
+  }
+  return frequencies;
+}
+
+function toSparseVector(frequencies: Map<number, number>, weight: (tf: number) => number): SparseVector {
+  const indices = [...frequencies.keys()].sort((a, b) => a - b);
+  return {
+    indices,
+    values: indices.map(index => weight(frequencies.get(index)!)),
+  };
+}
+
+/**
+ * Maps a term to a stable sparse vector index (32-bit FNV-1a)
+ */
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,5 +1,8 @@
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { Document } from '@langchain/core/documents';
+import { LoadedDocument } from './loaders/index.js';
+import { detectLanguage, splitCode } from './code-splitter.js';
+import { ChunkingProfile, DEFAULT_CHUNKING_PROFILE, LengthFunction } from './chunking.js';
 
 export interface TextChunk {
   text: string;
@@ -8,32 +11,79 @@ export interface TextChunk {
     source?: string;
     start?: number;
     end?: number;
+    // Set for source code: language, 1-based inclusive line range and enclosing symbol
+    language?: string;
+    startLine?: number;
+    endLine?: number;
+    symbol?: string;
+    // Structural metadata from the document loader (heading path, page, row...)
+    [key: string]: unknown;
   };
 }
 
+/**
+ * Splits text into chunks with the settings of a single chunking profile.
+ * Create one processor per request; its settings cannot be changed afterwards.
+ */
 export class TextProcessor {
-  private splitter: RecursiveCharacterTextSplitter;
+  private readonly splitter: RecursiveCharacterTextSplitter;
 
+  /**
+   * @param profile Chunking settings
+   * @param lengthFunction Measures text in the profile's unit (characters by default)
+   */
   constructor(
-    private chunkSize: number = 1000,
-    private chunkOverlap: number = 200
+    private readonly profile: ChunkingProfile = DEFAULT_CHUNKING_PROFILE,
+    private readonly lengthFunction: LengthFunction = text => text.length
   ) {
     this.splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: this.chunkSize,
-      chunkOverlap: this.chunkOverlap,
+      chunkSize: profile.size,
+      chunkOverlap: profile.overlap,
+      lengthFunction,
+      ...(profile.separators ? { separators: [...profile.separators] } : {}),
     });
   }
 
   async processText(text: string, source?: string): Promise<TextChunk[]> {
     const documents = await this.splitter.createDocuments([text]);
-    
-    return documents.map((doc: Document, index: number) => ({
-      text: doc.pageContent,
+    // The splitter does not report offsets, so locate each chunk after the previous one
+    let searchFrom = 0;
+
+    return documents.map((doc: Document, index: number) => {
+      const start = text.indexOf(doc.pageContent, searchFrom);
+      if (start !== -1) {
+        searchFrom = start + 1;
+      }
+
+      return {
+        text: doc.pageContent,
+        metadata: {
+          index,
+          source,
+          start: start === -1 ? undefined : start,
+          end: start === -1 ? undefined : start + doc.pageContent.length,
+        },
+      };
+    });
+  }
+
+  /**
+   * Splits source code along function and class boundaries
+   * @param text Source code
+   * @param language Language detected from the file extension
+   */
+  processCode(text: string, language: string, source?: string): TextChunk[] {
+    return splitCode(text, language, this.profile.size, this.lengthFunction).map((chunk, index) => ({
+      text: chunk.text,
       metadata: {
         index,
         source,
-        start: doc.metadata?.start,
-        end: doc.metadata?.end,
+        start: chunk.start,
+        end: chunk.end,
+        language,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        ...(chunk.symbol ? { symbol: chunk.symbol } : {}),
       },
     }));
   }
@@ -42,19 +92,33 @@ export class TextProcessor {
     return this.processText(content, filename);
   }
 
-  setChunkSize(size: number): void {
-    this.chunkSize = size;
-    this.splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: this.chunkSize,
-      chunkOverlap: this.chunkOverlap,
-    });
-  }
+  /**
+   * Chunks the documents extracted from one file. Chunk indexes run across
+   * all documents and each chunk keeps its document's metadata. Unless the
+   * profile's strategy is "recursive", files whose extension is a known
+   * programming language are split as code.
+   */
+  async processDocuments(documents: LoadedDocument[], source: string): Promise<TextChunk[]> {
+    const chunks: TextChunk[] = [];
+    const language = this.profile.strategy === 'recursive' ? null : detectLanguage(source);
 
-  setChunkOverlap(overlap: number): void {
-    this.chunkOverlap = overlap;
-    this.splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: this.chunkSize,
-      chunkOverlap: this.chunkOverlap,
-    });
+    for (const document of documents) {
+      const documentChunks = language
+        ? this.processCode(document.text, language, source)
+        : await this.processText(document.text, source);
+
+      for (const chunk of documentChunks) {
+        chunks.push({
+          text: chunk.text,
+          metadata: {
+            ...document.metadata,
+            ...chunk.metadata,
+            index: chunks.length,
+          },
+        });
+      }
+    }
+
+    return chunks;
   }
 }
@@ -0,0 +1,372 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportType = 'stdio' | 'http' | 'sse';
+
+export const TRANSPORT_TYPES: TransportType[] = ['stdio', 'http', 'sse'];
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+// Endpoints of the Streamable HTTP and legacy SSE transports
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const CORS_ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-API-Key',
+  'Mcp-Session-Id',
+  'Mcp-Protocol-Version',
+  'Last-Event-ID',
+];
+
+export interface TransportOptions {
+  type: TransportType;
+  host: string;
+  port: number;
+  // Accepted as "Authorization: Bearer <token>" or "X-API-Key: <token>"; empty disables authentication
+  authTokens: string[];
+  // Origins allowed to call the server from a browser; "*" allows any
+  corsOrigins: string[];
+  // Host names clients may address besides the listening interface, e.g. behind a reverse proxy
+  allowedHosts: string[];
+}
+
+/**
+ * Transport settings from the environment, overridden by command line flags
+ */
+export interface TransportSettings {
+  transport?: string;
+  host?: string;
+  port?: string;
+  authTokens?: string;
+  corsOrigins?: string;
+  allowedHosts?: string;
+}
+
+export interface HttpServerOptions extends TransportOptions {
+  // Creates the MCP server of a new session
+  createSession: () => Server;
+  // Extra details of the health endpoint, e.g. whether Qdrant is reachable
+  health?: () => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Splits a comma-separated setting into its non-empty values
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+/**
+ * Resolves the transport from the `--transport`, `--host`, `--port`,
+ * `--auth-token`, `--cors-origin` and `--allowed-host` command line flags,
+ * falling back to the settings given from the environment.
+ * @param flags Command line flags by name, as read by parseCommandLine
+ * @throws Error if a flag or setting is invalid
+ */
+export function resolveTransportOptions(flags: Record<string, string>, settings: TransportSettings = {}): TransportOptions {
+  const type = flags.transport ?? settings.transport ?? 'stdio';
+  if (!TRANSPORT_TYPES.includes(type as TransportType)) {
+    throw new Error(`Unknown transport "${type}"; use one of ${TRANSPORT_TYPES.join(', ')}`);
+  }
+  const port = Number(flags.port ?? settings.port ?? DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flags.port ?? settings.port}`);
+  }
+
+  return {
+    type: type as TransportType,
+    host: flags.host ?? settings.host ?? DEFAULT_HTTP_HOST,
+    port,
+    authTokens: splitList(flags['auth-token'] ?? settings.authTokens),
+    corsOrigins: splitList(flags['cors-origin'] ?? settings.corsOrigins),
+    allowedHosts: splitList(flags['allowed-host'] ?? settings.allowedHosts).map(host => host.toLowerCase()),
+  };
+}
+
+/**
+ * Compares secrets in constant time, whatever their lengths
+ */
+function secretsEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Tells whether a request carries one of the accepted tokens
+ */
+export function isAuthorized(req: IncomingMessage, authTokens: string[]): boolean {
+  if (authTokens.length === 0) {
+    return true;
+  }
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  const apiKey = req.headers['x-api-key'];
+  const presented = bearer ?? (typeof apiKey === 'string' ? apiKey : undefined);
+  return presented !== undefined && authTokens.some(token => secretsEqual(presented, token));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @throws Error if the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/**
+ * Host names a request may address, protecting against DNS rebinding
+ * @param allowedHosts Configured host names accepted in addition to the listening interface
+ * @returns The allowed host names, or null when the server listens on every interface
+ *   and no host names are configured
+ */
+function allowedHostnames(host: string, allowedHosts: string[]): string[] | null {
+  if (WILDCARD_HOSTS.includes(host)) {
+    return allowedHosts.length > 0 ? allowedHosts : null;
+  }
+  return [...(LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host]), ...allowedHosts];
+}
+
+/**
+ * Host name of a Host header or origin URL, without port or IPv6 brackets
+ */
+function hostnameOf(value: string): string | null {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tells whether a request's Host and Origin headers may reach the server. A page
+ * served from another site, including one whose name was rebound to this host,
+ * is refused unless its origin is allowed for CORS.
+ */
+export function isAllowedRequest(
+  req: IncomingMessage,
+  host: string,
+  corsOrigins: string[],
+  allowedHosts: string[] = []
+): boolean {
+  const hostnames = allowedHostnames(host, allowedHosts);
+  const requestHost = req.headers.host ? hostnameOf(req.headers.host) : null;
+  if (hostnames && (!requestHost || !hostnames.includes(requestHost))) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (!origin || corsOrigins.includes('*') || corsOrigins.includes(origin)) {
+    return true;
+  }
+  // Pages served by the server's own host name are same-site
+  const originHost = hostnameOf(origin);
+  return !!hostnames && !!originHost && hostnames.includes(originHost);
+}
+
+/**
+ * Adds CORS headers for allowed origins
+ * @returns Whether the request was a preflight request, which is fully answered
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, corsOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (origin && (corsOrigins.includes('*') || corsOrigins.includes(origin))) {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', CORS_ALLOWED_HEADERS.join(', '));
+      res.setHeader('Access-Control-Max-Age', '86400');
+    }
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Serves MCP over HTTP, with one MCP server per client session so sessions do not
+ * share protocol state. The `http` transport serves Streamable HTTP at /mcp; the
+ * legacy `sse` transport streams from /sse and takes messages at /messages.
+ * /health answers without authentication. Requests from disallowed hosts or
+ * origins are refused before anything else.
+ */
+export class McpHttpServer {
+  private httpServer: HttpServer;
+  private streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  private sseSessions = new Map<string, SSEServerTransport>();
+
+  constructor(private options: HttpServerOptions) {
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Starts listening
+   * @returns The address the server listens on
+   */
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Closes every session, then stops listening
+   */
+  async close(): Promise<void> {
+    const transports = [...this.streamableSessions.values(), ...this.sseSessions.values()];
+    await Promise.allSettled(transports.map(transport => transport.close()));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private get sessionCount(): number {
+    return this.streamableSessions.size + this.sseSessions.size;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!isAllowedRequest(req, this.options.host, this.options.corsOrigins, this.options.allowedHosts)) {
+      sendJsonRpcError(res, 403, ErrorCode.InvalidRequest, 'Forbidden: host or origin not allowed');
+      return;
+    }
+    if (applyCors(req, res, this.options.corsOrigins)) {
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      const details = await this.options.health?.().catch(error => ({
+        status: 'degraded',
+        error: error instanceof Error ? error.message : String(error),
+      }));
+      sendJson(res, 200, { status: 'ok', transport: this.options.type, sessions: this.sessionCount, ...details });
+      return;
+    }
+
+    if (!isAuthorized(req, this.options.authTokens)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, ErrorCode.InvalidRequest, 'Unauthorized: missing or invalid token');
+      return;
+    }
+
+    if (this.options.type === 'http' && url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res);
+    } else if (this.options.type === 'sse' && url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.openSseSession(res);
+    } else if (this.options.type === 'sse' && url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, ErrorCode.ParseError, `Parse error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? this.streamableSessions.get(sessionId) : undefined;
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined) {
+      sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: no valid session id provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.streamableSessions.set(id, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.streamableSessions.delete(transport.sessionId);
+      }
+    };
+    await this.options.createSession().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sseSessions.set(transport.sessionId, transport);
+    res.on('close', () => {
+      this.sseSessions.delete(transport.sessionId);
+    });
+    await this.options.createSession().connect(transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const transport = sessionId ? this.sseSessions.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, ErrorCode.ParseError, `Parse error: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, body);
+  }
+}
@@ -1,23 +1,39 @@
-import { EmbeddingGenerator } from '../types.js';
+import { Distance, EmbeddingGenerator, EmbeddingService, SearchMode } from '../types.js';
 import { QdrantService } from '../types.js';
+import { SPARSE_VECTOR_NAME } from './sparse.js';
+import { CollectionMetadataStore, vectorModel } from './collection-metadata.js';
+
+/**
+ * Whether each provider returns unit-length embeddings. OpenAI models, FastEmbed
+ * and Ollama's /api/embed normalize; OpenRouter depends on the upstream model.
+ */
+const NORMALIZED_EMBEDDINGS: Record<EmbeddingService, boolean> = {
+  openai: true,
+  fastembed: true,
+  ollama: true,
+  openrouter: false,
+};
 
 /**
  * Vector validation service to ensure compatibility between embeddings and collections
  */
 export class VectorValidationService {
   constructor(
-    private qdrantService: QdrantService
+    private qdrantService: QdrantService,
+    private metadataStore?: CollectionMetadataStore
   ) {}
 
   /**
-   * Validates that an embedding service can be used with a collection
+   * Validates that an embedding service can be used with a vector of a collection
    * @param collection Collection name
-   * @param embeddingService Embedding service to validate
+   * @param embeddingService Embedding service to validate, or the model of imported vectors
+   * @param vectorName Named vector the service fills or searches; "" for the unnamed vector
    * @returns Validation result with details
    */
   async validateEmbeddingCompatibility(
     collection: string,
-    embeddingService: EmbeddingGenerator
+    embeddingService: Pick<EmbeddingGenerator, 'provider' | 'modelName' | 'vectorSize'>,
+    vectorName: string = ''
   ): Promise<VectorValidationResult> {
     try {
       // Check if collection exists
@@ -46,27 +62,68 @@ export class VectorValidationService {
         };
       }
 
+      const vectorParams = collectionInfo.vectors[vectorName];
+      const vectorLabel = vectorName ? `vector "${vectorName}" of collection` : 'collection';
+      if (!vectorParams) {
+        const names = Object.keys(collectionInfo.vectors);
+        return {
+          isValid: false,
+          reason: vectorName
+            ? `Collection ${collection} has no vector named "${vectorName}"`
+            : `Collection ${collection} has named vectors, so a vector name is required`,
+          expectedVectorSize: embeddingService.vectorSize,
+          actualVectorSize: null,
+          action: 'missing_vector',
+          suggestedActions: names.every(name => name === '')
+            ? [
+                'Omit vectors to use the unnamed vector of this collection',
+                'Create a new collection with named vectors (named vectors cannot be added to an existing collection)'
+              ]
+            : [`Use one of the vectors ${names.map(name => `"${name}"`).join(', ')}`]
+        };
+      }
+
       // Check vector size compatibility
-      if (collectionInfo.vectorSize !== embeddingService.vectorSize) {
+      if (vectorParams.size !== embeddingService.vectorSize) {
         return {
           isValid: false,
-          reason: `Vector size mismatch: collection expects ${collectionInfo.vectorSize}, but embedding service produces ${embeddingService.vectorSize}`,
+          reason: `Vector size mismatch: ${vectorLabel} expects ${vectorParams.size}, but embedding service produces ${embeddingService.vectorSize}`,
           expectedVectorSize: embeddingService.vectorSize,
-          actualVectorSize: collectionInfo.vectorSize,
+          actualVectorSize: vectorParams.size,
           action: 'size_mismatch',
           suggestedActions: [
-            `Use a different embedding service that produces ${collectionInfo.vectorSize}-dimensional vectors`,
+            `Use a different embedding service that produces ${vectorParams.size}-dimensional vectors`,
             `Create a new collection with ${embeddingService.vectorSize}-dimensional vectors`,
+            `Migrate the collection to the new embedding service with reindex_collection`,
             `Delete and recreate the collection (WARNING: this will lose all data)`
           ]
         };
       }
 
+      // Same-sized vectors from another model are not comparable, so check the recorded model too
+      const recorded = await this.metadataStore?.get(collection);
+      const metadata = recorded ? vectorModel(recorded, vectorName) : null;
+      if (metadata && (metadata.provider !== embeddingService.provider || metadata.model !== embeddingService.modelName)) {
+        return {
+          isValid: false,
+          reason: `Embedding model mismatch: ${vectorLabel} was built with ${metadata.provider} model "${metadata.model}", but embedding service uses ${embeddingService.provider} model "${embeddingService.modelName}"`,
+          expectedVectorSize: embeddingService.vectorSize,
+          actualVectorSize: vectorParams.size,
+          action: 'model_mismatch',
+          suggestedActions: [
+            `Omit embeddingService to use the recorded ${metadata.provider} model "${metadata.model}"`,
+            `Set ${metadata.provider.toUpperCase()}_MODEL to "${metadata.model}"`,
+            `Create a new collection for the ${embeddingService.provider} model "${embeddingService.modelName}"`,
+            `Migrate the collection to the ${embeddingService.provider} model "${embeddingService.modelName}" with reindex_collection`
+          ]
+        };
+      }
+
       return {
         isValid: true,
         reason: 'Vector dimensions are compatible',
         expectedVectorSize: embeddingService.vectorSize,
-        actualVectorSize: collectionInfo.vectorSize,
+        actualVectorSize: vectorParams.size,
         action: 'compatible'
       };
 
@@ -81,6 +138,78 @@ export class VectorValidationService {
     }
   }
 
+  /**
+   * Validates that a collection supports the requested search mode
+   * @param collection Collection name
+   * @param mode Search mode; sparse and hybrid need the BM25 sparse vector
+   * @returns Validation result with details
+   */
+  async validateSearchMode(collection: string, mode: SearchMode): Promise<SearchModeValidationResult> {
+    if (mode === 'dense') {
+      return { isValid: true, reason: 'Dense search is supported by every collection' };
+    }
+
+    const collectionInfo = await this.qdrantService.getCollectionInfo(collection);
+    if (!collectionInfo) {
+      return { isValid: false, reason: `Could not retrieve information for collection ${collection}` };
+    }
+
+    if (!collectionInfo.sparseVectors.includes(SPARSE_VECTOR_NAME)) {
+      return {
+        isValid: false,
+        reason: `Collection ${collection} has no "${SPARSE_VECTOR_NAME}" sparse vector, so ${mode} search is not available`,
+        suggestedActions: [
+          `Use mode "dense" to search this collection`,
+          `Create a new collection with add_documents and "hybrid": true`,
+          `Delete and recreate the collection with "hybrid": true (WARNING: this will lose all data)`
+        ]
+      };
+    }
+
+    return { isValid: true, reason: `Collection supports ${mode} search` };
+  }
+
+  /**
+   * Validates that a distance metric suits the embeddings of a provider.
+   * Cosine normalizes vectors itself; Dot only ranks by similarity when vectors
+   * are unit length, and Euclid then ranks like Cosine.
+   * @param distance Distance of the collection to create
+   * @param embeddingService Embedding service filling the collection
+   * @returns Validation result with details
+   */
+  validateDistance(distance: Distance, embeddingService: EmbeddingGenerator): DistanceValidationResult {
+    const normalized = NORMALIZED_EMBEDDINGS[embeddingService.provider];
+    const model = `${embeddingService.provider} model "${embeddingService.modelName}"`;
+
+    if (distance === 'Cosine' || normalized) {
+      return {
+        isValid: true,
+        reason: distance === 'Cosine'
+          ? 'Cosine distance works with any embeddings'
+          : `${model} returns normalized embeddings, so ${distance} distance ranks like Cosine`,
+        warnings: [],
+      };
+    }
+
+    if (distance === 'Dot') {
+      return {
+        isValid: false,
+        reason: `Dot distance needs normalized embeddings, but ${model} does not guarantee them: longer vectors would outrank more similar ones`,
+        warnings: [],
+        suggestedActions: [
+          'Use Cosine distance, which normalizes vectors on insertion',
+          'Use an embedding service that returns normalized embeddings (openai, fastembed or ollama)',
+        ],
+      };
+    }
+
+    return {
+      isValid: true,
+      reason: `Euclid distance accepted for ${model}`,
+      warnings: [`${model} does not guarantee normalized embeddings, so Euclid distances also depend on vector length`],
+    };
+  }
+
   /**
    * Validates vector data before adding to collection
    * @param vectors Array of vectors to validate
@@ -180,7 +309,26 @@ export interface VectorValidationResult {
   reason: string;
   expectedVectorSize: number;
   actualVectorSize: number | null;
-  action: 'create_collection' | 'compatible' | 'size_mismatch' | 'error';
+  action: 'create_collection' | 'compatible' | 'missing_vector' | 'size_mismatch' | 'model_mismatch' | 'error';
+  suggestedActions?: string[];
+}
+
+/**
+ * Result of search mode validation
+ */
+export interface SearchModeValidationResult {
+  isValid: boolean;
+  reason: string;
+  suggestedActions?: string[];
+}
+
+/**
+ * Result of distance validation
+ */
+export interface DistanceValidationResult {
+  isValid: boolean;
+  reason: string;
+  warnings: string[];
   suggestedActions?: string[];
 }
 
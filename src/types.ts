@@ -1,4 +1,5 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import type { ChunkingOverrides } from './services/chunking.js';
 
 export type EmbeddingService = 'openai' | 'openrouter' | 'fastembed' | 'ollama';
 
@@ -9,44 +10,267 @@ export interface EmbeddingServiceConfig {
   model?: string;
 }
 
+export type RerankerService = 'fastembed' | 'tei' | 'cohere';
+
+export interface RerankerConfig {
+  type: RerankerService;
+  apiKey?: string;
+  endpoint?: string;
+  model?: string;
+}
+
 export interface QdrantConfig {
   url: string;
   apiKey?: string;
 }
 
+export interface EmbeddingConfig {
+  // Profile used when a call names none and the collection has no recorded model
+  defaultProfile?: string;
+  // Embedding services by profile name; every provider also has a profile named after it
+  profiles: Record<string, EmbeddingServiceConfig>;
+  cache: {
+    enabled: boolean;
+    directory: string;
+    maxBytes: number;
+  };
+}
+
+/**
+ * Settings used by tool calls on a collection when the call does not give them
+ */
+export interface CollectionDefaults extends Omit<CollectionOptions, 'sparse'> {
+  embeddingProfile?: string;
+  chunkingProfile?: string;
+  hybrid?: boolean;
+}
+
+export interface ChunkingConfig {
+  // Profile used when a call names none; the built-in "default" profile otherwise
+  defaultProfile?: string;
+  // Profiles by name; omitted settings come from the built-in "default" profile
+  profiles: Record<string, ChunkingOverrides>;
+}
+
 export interface ServerConfig {
   qdrant: QdrantConfig;
-  embedding: EmbeddingServiceConfig;
+  embedding: EmbeddingConfig;
+  collections: Record<string, CollectionDefaults>;
+  chunking: ChunkingConfig;
+  reranker: RerankerConfig & { cacheDir?: string };
+  prompts: { directory: string };
 }
 
+export type Distance = 'Cosine' | 'Euclid' | 'Dot';
+
 export interface Collection {
   name: string;
   vectorSize: number;
-  distance: 'Cosine' | 'Euclid' | 'Dot';
+  distance: Distance;
 }
 
 export interface SearchResult {
-  id: string;
+  id: PointId;
   score: number;
   payload: Record<string, any>;
   vector?: number[];
+  // Relevance assigned by a reranker; score keeps the original search score
+  rerankScore?: number;
+  // The hit's chunk merged with its neighbours, when the search asked for context
+  context?: ContextPassage;
+}
+
+/**
+ * Consecutive chunks of a source merged into one passage
+ */
+export interface ContextPassage {
+  text: string;
+  // Chunk index range of the passage, inclusive
+  fromIndex: number;
+  toIndex: number;
+  // Character offsets and 1-based line range in the source, where the chunks record them
+  start?: number;
+  end?: number;
+  startLine?: number;
+  endLine?: number;
+}
+
+export type QdrantFilter = Schemas['Filter'];
+
+export type PointId = string | number;
+
+export type PayloadSchemaType = Schemas['PayloadSchemaType'];
+
+export interface FacetHit {
+  value: string | number | boolean;
+  count: number;
+}
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+// Dense vectors by vector name; "" is the unnamed default vector
+export type NamedVectors = Record<string, number[]>;
+
+export interface PointDocument {
+  id: PointId;
+  // The unnamed vector, or every named vector of the collection
+  vector: number[] | NamedVectors;
+  sparseVector?: SparseVector;
+  payload: Record<string, any>;
+}
+
+export interface HnswOptions {
+  // Edges per node of the graph; more edges improve recall and use more memory
+  m?: number;
+  // Neighbours considered while building the graph; higher is slower but more accurate
+  efConstruct?: number;
+  onDisk?: boolean;
+}
+
+export type QuantizationType = 'scalar' | 'binary' | 'product';
+export type ProductCompression = 'x4' | 'x8' | 'x16' | 'x32' | 'x64';
+
+export interface QuantizationOptions {
+  type: QuantizationType;
+  // Scalar only: quantile of values kept in range when converting to int8
+  quantile?: number;
+  // Product only: compression ratio
+  compression?: ProductCompression;
+  // Keep quantized vectors in memory even when the original vectors are on disk
+  alwaysRam?: boolean;
+}
+
+export interface CollectionOptions {
+  // Adds a BM25 sparse vector next to the dense one for sparse and hybrid search
+  sparse?: boolean;
+  distance?: Distance;
+  hnsw?: HnswOptions;
+  quantization?: QuantizationOptions;
+  onDiskVectors?: boolean;
+  onDiskPayload?: boolean;
+  shardNumber?: number;
+  replicationFactor?: number;
+}
+
+export interface CollectionInfo {
+  // Dense vectors by name; the unnamed default vector is keyed by ""
+  vectors: Record<string, VectorParams>;
+  sparseVectors: string[];
+}
+
+export interface VectorParams {
+  size: number;
+  distance: string;
+  onDisk?: boolean;
+}
+
+/**
+ * Statistics and configuration of a collection as reported by Qdrant
+ */
+export interface CollectionDetails {
+  // green, yellow (optimizing), grey (optimization pending) or red
+  status: string;
+  // "ok" or the optimizer error
+  optimizerStatus: string;
+  pointsCount: number;
+  indexedVectorsCount: number;
+  segmentsCount: number;
+  // Dense vectors by name; the unnamed default vector is keyed by ""
+  vectors: Record<string, VectorParams>;
+  sparseVectors: string[];
+  payloadIndexes: Record<string, { type: string; points: number }>;
+  hnsw: { m?: number; efConstruct?: number; onDisk?: boolean };
+  // Quantization as configured in Qdrant, null without quantization
+  quantization: Record<string, unknown> | null;
+  onDiskPayload: boolean;
+  shardNumber: number;
+  replicationFactor: number;
+}
+
+export type SearchMode = 'dense' | 'sparse' | 'hybrid';
+
+export interface SearchOptions {
+  // Return the searched dense vector of each result, e.g. to diversify results locally
+  withVector?: boolean;
+  // Named dense vector to search; the unnamed vector when omitted
+  using?: string;
+}
+
+export interface StoredPoint {
+  // UUID or unsigned integer, kept as Qdrant returns it so it can be written back
+  id: PointId;
+  payload: Record<string, any>;
+  // The unnamed dense vector
+  vector?: number[];
+  // Every dense vector by name, including the unnamed one keyed by ""
+  vectors?: NamedVectors;
+}
+
+export interface CollectionAlias {
+  alias: string;
+  collection: string;
+}
+
+export interface ScrollOptions {
+  filter?: QdrantFilter;
+  limit?: number;
+  offset?: PointId;
+  withVector?: boolean;
+}
+
+export interface ScrollPage {
+  points: StoredPoint[];
+  nextOffset: PointId | null;
+}
+
+export interface EmbeddingRequestOptions {
+  // Aborts in-flight provider requests when the client cancels
+  signal?: AbortSignal;
+  // Called after each provider batch completes
+  onBatchComplete?: (completed: number, total: number) => void;
 }
 
 export interface EmbeddingGenerator {
-  generateEmbeddings(texts: string[]): Promise<number[][]>;
+  generateEmbeddings(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]>;
   vectorSize: number;
+  provider: EmbeddingService;
+  modelName: string;
   
   // Optional initialization method for services that need to detect dimensions
   initializeVectorSize?(): Promise<void>;
 }
 
+export interface RerankRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface Reranker {
+  // Scores each document's relevance to the query, in the order of the documents
+  rerank(query: string, documents: string[], options?: RerankRequestOptions): Promise<number[]>;
+  provider: RerankerService;
+  modelName: string;
+}
+
 export interface QdrantService {
   client: QdrantClient;
   listCollections(): Promise<string[]>;
-  createCollection(name: string, vectorSize: number): Promise<void>;
+  createCollection(name: string, vectors: number | Record<string, number>, options?: CollectionOptions): Promise<void>;
   deleteCollection(name: string): Promise<void>;
-  addDocuments(collection: string, documents: { id: string; vector: number[]; payload: Record<string, any> }[]): Promise<void>;
-  search(collection: string, vector: number[], limit?: number): Promise<SearchResult[]>;
+  addDocuments(collection: string, documents: PointDocument[]): Promise<void>;
+  search(collection: string, vector: number[], limit?: number, filter?: QdrantFilter, options?: SearchOptions): Promise<SearchResult[]>;
+  hybridSearch(collection: string, query: { vector?: number[]; sparseVector?: SparseVector }, limit?: number, filter?: QdrantFilter, options?: SearchOptions): Promise<SearchResult[]>;
+  scroll(collection: string, options?: ScrollOptions): Promise<ScrollPage>;
+  deleteByFilter(collection: string, filter: QdrantFilter): Promise<void>;
+  deletePoints(collection: string, ids: PointId[]): Promise<void>;
+  countPoints(collection: string, filter?: QdrantFilter): Promise<number>;
+  facet(collection: string, key: string, options?: { filter?: QdrantFilter; limit?: number }): Promise<FacetHit[]>;
+  ensurePayloadIndexes(collection: string): Promise<void>;
   collectionExists(name: string): Promise<boolean>;
-  getCollectionInfo(name: string): Promise<{ vectorSize: number; distance: string } | null>;
+  listAliases(): Promise<CollectionAlias[]>;
+  setAlias(alias: string, collection: string): Promise<void>;
+  getCollectionInfo(name: string): Promise<CollectionInfo | null>;
+  describeCollection(name: string): Promise<CollectionDetails>;
 }
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { splitCode } from '../src/services/code-splitter.js';
+
+// Sizes in non-blank lines keep the expected chunks readable
+const nonBlankLines = (text: string) => text.split('\n').filter(line => line.trim()).length;
+
+function chunkRanges(source: string[], language: string, maxSize: number) {
+  return splitCode(source.join('\n'), language, maxSize, nonBlankLines)
+    .map(chunk => [chunk.startLine, chunk.endLine, chunk.symbol]);
+}
+
+describe('splitCode', () => {
+  it('ends declarations at their closing brace and leaves code between them unattributed', () => {
+    const source = [
+      'interface Options {',
+      '  size: number;',
+      '}',
+      '',
+      'const DEFAULTS = loadDefaults();',
+      'console.log(DEFAULTS);',
+      '',
+      'export function run(): void {',
+      '  start();',
+      '}',
+      '',
+      'run();',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'typescript', 3), [
+      [1, 4, 'Options'],
+      [5, 7, undefined],
+      [8, 11, 'run'],
+      [12, 12, undefined],
+    ]);
+  });
+
+  it('ends declarations without a body at their statement', () => {
+    const source = [
+      'export type Mode =',
+      "  | 'fast'",
+      "  | 'slow';",
+      'export function pick(',
+      '  mode: Mode,',
+      '): number {',
+      "  return mode === 'fast' ? 1 : 2;",
+      '}',
+      'main();',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'typescript', 5), [
+      [1, 3, 'Mode'],
+      [4, 8, 'pick'],
+      [9, 9, undefined],
+    ]);
+  });
+
+  it('attributes the code around nested members to the enclosing declaration', () => {
+    const source = [
+      'class Store {',
+      '  private items = [];',
+      '',
+      '  add(item) {',
+      '    this.items.push(item);',
+      '  }',
+      '',
+      '  private limit = 10;',
+      '',
+      '  clear() {',
+      '    this.items = [];',
+      '  }',
+      '}',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'typescript', 3), [
+      [1, 3, 'Store'],
+      [4, 7, 'Store.add'],
+      [8, 9, 'Store'],
+      [10, 12, 'Store.clear'],
+      [13, 13, 'Store'],
+    ]);
+  });
+
+  it('ignores braces in strings and comments', () => {
+    const source = [
+      'function format(value) {',
+      "  // closes with '}'",
+      '  return `{${value}`;',
+      '}',
+      'format(1);',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'javascript', 4), [
+      [1, 4, 'format'],
+      [5, 5, undefined],
+    ]);
+  });
+
+  it('ends Python declarations with their indented body', () => {
+    const source = [
+      'def load(path):',
+      '    with open(path) as f:',
+      '        return f.read()',
+      '',
+      '',
+      'CONFIG = load("a.toml")',
+      'print(CONFIG)',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'python', 3), [
+      [1, 5, 'load'],
+      [6, 7, undefined],
+    ]);
+  });
+
+  it('ends Ruby declarations with their end line', () => {
+    const source = [
+      'class Greeter',
+      '  def hello',
+      '    "hi"',
+      '  end',
+      'end',
+      'Greeter.new.hello',
+    ];
+
+    assert.deepEqual(chunkRanges(source, 'ruby', 5), [
+      [1, 5, 'Greeter'],
+      [6, 6, undefined],
+    ]);
+  });
+});
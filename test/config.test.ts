@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCommandLine, resolveServerConfig, validateConfigFile } from '../src/services/config.js';
+
+describe('validateConfigFile', () => {
+  it('accepts a complete config', () => {
+    const errors = validateConfigFile({
+      qdrant: { url: 'http://qdrant:6333', apiKeyEnv: 'QDRANT_SECRET' },
+      embedding: {
+        defaultProfile: 'small',
+        profiles: {
+          small: { provider: 'openai', model: 'text-embedding-3-small' },
+          ollama: { model: 'nomic-embed-text' },
+        },
+        cache: { enabled: true, maxMb: 64 },
+      },
+      collections: { docs: { embeddingProfile: 'small', chunkingProfile: 'code', hybrid: true, distance: 'Dot' } },
+      chunking: { defaultProfile: 'code', profiles: { code: { strategy: 'recursive', size: 800, overlap: 0 } } },
+      reranker: { provider: 'cohere', apiKeyEnv: 'COHERE_KEY' },
+      prompts: { directory: '/etc/prompts' },
+    });
+    assert.deepEqual(errors, []);
+  });
+
+  it('reports every invalid setting by key path', () => {
+    const errors = validateConfigFile({
+      extra: true,
+      qdrant: { url: 1 },
+      embedding: {
+        profiles: { openai: { provider: 'ollama' }, small: { model: 'x' }, fast: { provider: 'fastembed', dims: 3 } },
+        cache: { maxMb: 0 },
+      },
+      collections: { docs: { hybrid: 'yes' } },
+      chunking: { profiles: { tiny: { size: 10, overlap: 20 } } },
+      reranker: { provider: 'nope' },
+    });
+    assert.deepEqual(errors, [
+      'extra is not a known setting; expected one of qdrant, embedding, collections, chunking, reranker, prompts',
+      'qdrant.url must be a string',
+      'embedding.profiles.openai.provider must be openai, as the profile is named after that provider',
+      'embedding.profiles.small.provider must be one of openai, openrouter, fastembed, ollama',
+      'embedding.profiles.fast.dims is not a known setting; expected one of provider, model, endpoint, apiKey, apiKeyEnv',
+      'embedding.cache.maxMb must be a positive number',
+      'collections.docs.hybrid must be a boolean',
+      'chunking.profiles.tiny.overlap must be smaller than size',
+      'reranker.provider must be one of fastembed, tei, cohere',
+    ]);
+  });
+
+  it('rejects a config that is not an object', () => {
+    assert.deepEqual(validateConfigFile(['qdrant']), ['the config must be an object of settings']);
+  });
+});
+
+describe('resolveServerConfig', () => {
+  const file = {
+    qdrant: { url: 'http://file:6333', apiKeyEnv: 'QDRANT_SECRET' },
+    embedding: {
+      defaultProfile: 'small',
+      profiles: {
+        small: { provider: 'openai', model: 'text-embedding-3-small' },
+        openai: { model: 'text-embedding-3-large', apiKey: 'file-key' },
+      },
+      cache: { enabled: true, maxMb: 64 },
+    },
+    reranker: { provider: 'tei', endpoint: 'http://file-reranker' },
+  };
+
+  it('uses the config file without environment variables', () => {
+    const config = resolveServerConfig(file, { QDRANT_SECRET: 'from-env-var' });
+    assert.deepEqual(config.qdrant, { url: 'http://file:6333', apiKey: 'from-env-var' });
+    assert.equal(config.embedding.defaultProfile, 'small');
+    assert.equal(config.embedding.cache.enabled, true);
+    assert.equal(config.embedding.cache.maxBytes, 64 * 1024 * 1024);
+    assert.equal(config.reranker.type, 'tei');
+    assert.equal(config.reranker.endpoint, 'http://file-reranker');
+  });
+
+  it('lets environment variables override the file', () => {
+    const config = resolveServerConfig(file, {
+      QDRANT_URL: 'http://env:6333',
+      QDRANT_API_KEY: 'env-qdrant-key',
+      DEFAULT_EMBEDDING_SERVICE: 'openai',
+      EMBEDDING_CACHE: 'false',
+      EMBEDDING_CACHE_MAX_MB: '8',
+      RERANKER_SERVICE: 'fastembed',
+    });
+    assert.deepEqual(config.qdrant, { url: 'http://env:6333', apiKey: 'env-qdrant-key' });
+    assert.equal(config.embedding.defaultProfile, 'openai');
+    assert.equal(config.embedding.cache.enabled, false);
+    assert.equal(config.embedding.cache.maxBytes, 8 * 1024 * 1024);
+    assert.equal(config.reranker.type, 'fastembed');
+  });
+
+  it('applies provider variables to the profile named after the provider only', () => {
+    const { profiles } = resolveServerConfig(file, {
+      OPENAI_API_KEY: 'env-key',
+      OPENAI_MODEL: 'env-model',
+      OPENAI_ENDPOINT: 'http://env-openai',
+    }).embedding;
+    assert.deepEqual(profiles.openai, {
+      type: 'openai', apiKey: 'env-key', endpoint: 'http://env-openai', model: 'env-model',
+    });
+    // Other profiles of the provider keep their model and fall back to its key and endpoint
+    assert.deepEqual(profiles.small, {
+      type: 'openai', apiKey: 'env-key', endpoint: 'http://env-openai', model: 'text-embedding-3-small',
+    });
+  });
+
+  it('keeps file settings of provider profiles that the environment does not set', () => {
+    const { profiles } = resolveServerConfig(file, {}).embedding;
+    assert.equal(profiles.openai.apiKey, 'file-key');
+    assert.equal(profiles.openai.model, 'text-embedding-3-large');
+    // Every provider has a profile, configured or not
+    assert.deepEqual(Object.keys(profiles).sort(), ['fastembed', 'ollama', 'openai', 'openrouter', 'small']);
+  });
+
+  it('merges chunking profiles from the environment over the file', () => {
+    const config = resolveServerConfig(
+      { chunking: { profiles: { code: { size: 800 }, prose: { size: 1200 } } } },
+      { CHUNKING_PROFILES: '{"code":{"size":400}}', DEFAULT_CHUNKING_PROFILE: 'code' }
+    );
+    assert.deepEqual(config.chunking, {
+      defaultProfile: 'code',
+      profiles: { code: { size: 400 }, prose: { size: 1200 } },
+    });
+  });
+
+  it('lists every invalid setting and unknown profile reference', () => {
+    assert.throws(
+      () => resolveServerConfig(
+        { embedding: { defaultProfile: 'missing' }, collections: { docs: { chunkingProfile: 'tiny' } } },
+        { CHUNKING_PROFILES: '{"a":{"size":-1}}', EMBEDDING_CACHE_MAX_MB: 'lots' }
+      ),
+      {
+        message: 'Invalid configuration:\n' +
+          '- CHUNKING_PROFILES.a.size must be a positive integer\n' +
+          '- CHUNKING_PROFILES.a.overlap must be smaller than size\n' +
+          '- EMBEDDING_CACHE_MAX_MB must be a positive number\n' +
+          '- embedding.defaultProfile names an unknown embedding profile "missing"\n' +
+          '- collections.docs.chunkingProfile names an unknown chunking profile "tiny"',
+      }
+    );
+  });
+});
+
+describe('parseCommandLine', () => {
+  it('reads flags with separate and inline values', () => {
+    assert.deepEqual(
+      parseCommandLine(['--transport', 'http', '--port=8080', '--allowed-host', 'mcp.example.com']),
+      { transport: 'http', port: '8080', 'allowed-host': 'mcp.example.com' }
+    );
+  });
+
+  it('rejects unknown flags and missing values', () => {
+    assert.throws(() => parseCommandLine(['--verbose', 'yes']), /Unknown option: --verbose/);
+    assert.throws(() => parseCommandLine(['--port']), /Missing value for --port/);
+  });
+});
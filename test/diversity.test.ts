@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collapseAdjacentChunks, maximalMarginalRelevance } from '../src/services/diversity.js';
+import { SearchResult } from '../src/types.js';
+
+const result = (id: string, score: number, fields: Partial<SearchResult> = {}): SearchResult =>
+  ({ id, score, payload: {}, ...fields });
+
+const ids = (results: SearchResult[]) => results.map(r => r.id);
+
+describe('maximalMarginalRelevance', () => {
+  // "b" nearly duplicates the best match "a"; "c" is less relevant but different
+  const query = [1, 0];
+  const candidates = [
+    result('a', 0.9, { vector: [1, 0.1] }),
+    result('b', 0.89, { vector: [1, 0.12] }),
+    result('c', 0.6, { vector: [0.8, -0.6] }),
+  ];
+
+  it('moves near-duplicates of a selected result down', () => {
+    assert.deepEqual(ids(maximalMarginalRelevance(candidates, 3, 0.5, query)), ['a', 'c', 'b']);
+  });
+
+  it('keeps the relevance order with lambda 1', () => {
+    assert.deepEqual(ids(maximalMarginalRelevance(candidates, 3, 1, query)), ['a', 'b', 'c']);
+  });
+
+  it('selects at most limit results', () => {
+    assert.deepEqual(ids(maximalMarginalRelevance(candidates, 2, 0.5, query)), ['a', 'c']);
+  });
+
+  it('ranks relevance by rerank score, then score, without a query vector', () => {
+    const reranked = [
+      result('a', 0.9, { vector: [1, 0], rerankScore: 0.1 }),
+      result('b', 0.5, { vector: [0, 1], rerankScore: 0.8 }),
+    ];
+    assert.deepEqual(ids(maximalMarginalRelevance(reranked, 2, 1)), ['b', 'a']);
+    assert.deepEqual(ids(maximalMarginalRelevance(candidates, 3, 1)), ['a', 'b', 'c']);
+  });
+
+  it('keeps candidates without a vector after the diversified ones', () => {
+    const mixed = [result('x', 0.95), ...candidates];
+    assert.deepEqual(ids(maximalMarginalRelevance(mixed, 4, 0.5, query)), ['a', 'c', 'b', 'x']);
+  });
+});
+
+describe('collapseAdjacentChunks', () => {
+  const chunk = (id: string, source: string, index: number) => result(id, 1, { payload: { source, index } });
+
+  it('drops chunks next to a better-ranked chunk of the same source', () => {
+    const results = [
+      chunk('a5', 'a.md', 5),
+      chunk('a6', 'a.md', 6),
+      chunk('b6', 'b.md', 6),
+      chunk('a4', 'a.md', 4),
+      chunk('a7', 'a.md', 7),
+      chunk('a8', 'a.md', 8),
+    ];
+    // a7 is kept as it only neighbours the dropped a6; a8 then neighbours a7
+    assert.deepEqual(ids(collapseAdjacentChunks(results)), ['a5', 'b6', 'a7']);
+  });
+
+  it('keeps results without source or chunk index', () => {
+    const results = [chunk('a1', 'a.md', 1), result('x', 1), result('y', 1, { payload: { source: 'a.md' } })];
+    assert.deepEqual(ids(collapseAdjacentChunks(results)), ['a1', 'x', 'y']);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mergeChunkTexts } from '../src/services/documents.js';
+
+describe('mergeChunkTexts', () => {
+  it('drops the overlap given by the chunk offsets', () => {
+    const merged = mergeChunkTexts([
+      { text: 'Hello world, this', start: 0, end: 17 },
+      { text: 'this is the end', start: 13, end: 28 },
+    ]);
+    assert.equal(merged, 'Hello world, this is the end');
+  });
+
+  it('looks for the overlap when chunks have no offsets', () => {
+    assert.equal(mergeChunkTexts([{ text: 'one two three' }, { text: 'two three four' }]), 'one two three four');
+  });
+
+  it('looks for the overlap when the offsets do not match the texts', () => {
+    const merged = mergeChunkTexts([
+      { text: 'abc def', start: 0, end: 7 },
+      { text: 'def ghi', start: 5, end: 12 },
+    ]);
+    assert.equal(merged, 'abc def ghi');
+  });
+
+  it('does not treat restarted offsets of another document as overlap', () => {
+    const merged = mergeChunkTexts([
+      { text: 'first record', start: 0, end: 12 },
+      { text: 'second record', start: 0, end: 13 },
+    ]);
+    assert.equal(merged, 'first record\n\nsecond record');
+  });
+
+  it('separates chunks without overlap by a blank line, or a line break for code', () => {
+    assert.equal(mergeChunkTexts([{ text: 'First.' }, { text: 'Second.' }]), 'First.\n\nSecond.');
+    assert.equal(
+      mergeChunkTexts([{ text: 'function a() {}', startLine: 1 }, { text: 'function b() {}', startLine: 2 }]),
+      'function a() {}\nfunction b() {}'
+    );
+  });
+
+  it('never drops a whole chunk as overlap', () => {
+    assert.equal(mergeChunkTexts([{ text: 'repeat' }, { text: 'repeat' }]), 'repeat\n\nrepeat');
+  });
+
+  it('returns a single chunk unchanged and nothing without chunks', () => {
+    assert.equal(mergeChunkTexts([{ text: 'only' }]), 'only');
+    assert.equal(mergeChunkTexts([]), '');
+  });
+});
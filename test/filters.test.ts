@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SearchFilterBuilder, validateSearchFilter } from '../src/services/filters.js';
+import { QdrantService } from '../src/types.js';
+
+const STORED_SOURCES = ['/home/me/docs/a.md', '/home/me/docs/guide/b.md', '/home/me/src/a.md'];
+
+/**
+ * Qdrant stand-in serving the stored sources by facet, or by scroll without a source index
+ */
+function fakeQdrant(indexed: boolean) {
+  const calls = { facet: 0, scroll: 0 };
+  const service = {
+    describeCollection: async () => ({ payloadIndexes: indexed ? { source: 'keyword' } : {} }),
+    facet: async () => {
+      calls.facet++;
+      return STORED_SOURCES.map(value => ({ value, count: 1 }));
+    },
+    scroll: async (_collection: string, options: { offset?: number } = {}) => {
+      calls.scroll++;
+      // One source per page, to exercise paging
+      const offset = options.offset ?? 0;
+      return {
+        points: [{ id: offset, payload: { source: STORED_SOURCES[offset] } }],
+        nextOffset: offset + 1 < STORED_SOURCES.length ? offset + 1 : null,
+      };
+    },
+  };
+  return { service: service as unknown as QdrantService, calls };
+}
+
+describe('validateSearchFilter', () => {
+  it('accepts sources and match and range conditions', () => {
+    const result = validateSearchFilter({
+      source: ['docs/*.md', '/abs/file.ts'],
+      must: [{ key: 'language', match: 'typescript' }],
+      should: [{ key: 'tags', match: ['a', 'b'] }],
+      must_not: [{ key: 'index', range: { gte: 0, lt: 3 } }],
+    });
+    assert.deepEqual(result, { isValid: true, errors: [] });
+  });
+
+  it('rejects values that are not filters', () => {
+    for (const filter of [null, 'source', []]) {
+      assert.deepEqual(validateSearchFilter(filter), { isValid: false, errors: ['filter must be an object'] });
+    }
+  });
+
+  it('lists every problem with its path', () => {
+    const result = validateSearchFilter({
+      sources: 'a.md',
+      source: [''],
+      must: { key: 'a', match: 1 },
+      should: [
+        { match: 1 },
+        { key: 'b', match: 1, range: { gt: 0 } },
+        { key: 'c', match: [1, 'x'] },
+        { key: 'd', range: { above: 1, lt: '2' } },
+        { key: 'e', range: {} },
+      ],
+    });
+    assert.equal(result.isValid, false);
+    assert.deepEqual(result.errors, [
+      'Unknown filter field "sources" (expected source, must, should or must_not)',
+      'filter.source must be a non-empty string or array of strings',
+      'filter.must must be an array of conditions',
+      'filter.should[0].key must be a non-empty string',
+      'filter.should[1] must have exactly one of match or range',
+      'filter.should[2].match array must contain only strings or only integers',
+      'filter.should[3].range has unknown bound "above"',
+      'filter.should[3].range.lt must be a number',
+      'filter.should[4].range must set at least one of gt, gte, lt, lte',
+    ]);
+  });
+});
+
+describe('SearchFilterBuilder', () => {
+  it('sends absolute paths as exact matches without listing sources', async () => {
+    const { service, calls } = fakeQdrant(true);
+    const filter = await new SearchFilterBuilder(service).build('docs', { source: '/home/me/docs/a.md' });
+    assert.deepEqual(filter, { must: [{ key: 'source', match: { any: ['/home/me/docs/a.md'] } }] });
+    assert.equal(calls.facet, 0);
+  });
+
+  it('matches relative paths by suffix', async () => {
+    const builder = new SearchFilterBuilder(fakeQdrant(true).service);
+    assert.deepEqual(await builder.resolveSources('docs', ['docs/a.md']), ['/home/me/docs/a.md']);
+    assert.deepEqual(await builder.resolveSources('docs', ['./guide/b.md']), ['/home/me/docs/guide/b.md']);
+    assert.deepEqual(await builder.resolveSources('docs', ['a.md']), ['/home/me/docs/a.md', '/home/me/src/a.md']);
+    // Suffixes match whole path segments only
+    assert.deepEqual(await builder.resolveSources('docs', ['ocs/a.md']), ['']);
+  });
+
+  it('matches relative and absolute globs', async () => {
+    const builder = new SearchFilterBuilder(fakeQdrant(true).service);
+    assert.deepEqual(
+      await builder.resolveSources('docs', ['docs/**/*.md']),
+      ['/home/me/docs/a.md', '/home/me/docs/guide/b.md']
+    );
+    assert.deepEqual(await builder.resolveSources('docs', ['/home/me/src/*']), ['/home/me/src/a.md']);
+  });
+
+  it('excludes everything when nothing matches', async () => {
+    const builder = new SearchFilterBuilder(fakeQdrant(true).service);
+    assert.deepEqual(await builder.resolveSources('docs', ['*.py']), ['']);
+  });
+
+  it('lists sources by scrolling when source has no payload index', async () => {
+    const { service, calls } = fakeQdrant(false);
+    const sources = await new SearchFilterBuilder(service).resolveSources('docs', ['docs/a.md']);
+    assert.deepEqual(sources, ['/home/me/docs/a.md']);
+    assert.deepEqual(calls, { facet: 0, scroll: STORED_SOURCES.length });
+  });
+});
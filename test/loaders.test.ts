@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CsvLoader } from '../src/services/loaders/csv.js';
+import { JsonlLoader, JsonLoader } from '../src/services/loaders/json.js';
+
+const load = (loader: { load: CsvLoader['load'] }, text: string, options = {}) =>
+  loader.load(Buffer.from(text, 'utf-8'), options);
+
+describe('CsvLoader', () => {
+  it('makes one document per row from the header and its values', async () => {
+    const documents = await load(new CsvLoader(), 'name,role\nAda,engineer\nGrace,admiral\n');
+    assert.deepEqual(documents, [
+      { text: 'name: Ada\nrole: engineer', metadata: { row: 1 } },
+      { text: 'name: Grace\nrole: admiral', metadata: { row: 2 } },
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, escaped quotes and newlines', async () => {
+    const csv = 'id,note\r\n1,"Hello, ""world""\r\nsecond line"\r\n2,plain\r\n';
+    const documents = await load(new CsvLoader(), csv, { textFields: ['note'] });
+    assert.deepEqual(documents.map(doc => doc.text), [
+      'note: Hello, "world"\r\nsecond line',
+      'note: plain',
+    ]);
+  });
+
+  it('skips blank lines and fills missing values', async () => {
+    const documents = await load(new CsvLoader(), 'a,b\n\n1\n\n2,3');
+    assert.deepEqual(documents.map(doc => doc.text), ['a: 1', 'a: 2\nb: 3']);
+  });
+
+  it('splits TSV at tabs', async () => {
+    const documents = await load(new CsvLoader('tsv'), 'a\tb\nx,y\tz');
+    assert.deepEqual(documents.map(doc => doc.text), ['a: x,y\nb: z']);
+  });
+
+  it('returns no documents for an empty file', async () => {
+    assert.deepEqual(await load(new CsvLoader(), ''), []);
+  });
+});
+
+describe('record payload fields', () => {
+  it('are copied under fields without replacing the record number', async () => {
+    const json = JSON.stringify([{ text: 'first', source: 'crm', category: 'billing' }]);
+    const [document] = await load(new JsonLoader(), json, {
+      textFields: ['text'],
+      payloadFields: ['source', 'category', 'missing'],
+    });
+    assert.deepEqual(document, {
+      text: 'text: first',
+      metadata: { record: 0, fields: { source: 'crm', category: 'billing' } },
+    });
+  });
+
+  it('keep the record number and line of JSONL records', async () => {
+    const jsonl = '{"q":"a","tag":"x"}\n\n{"q":"b","tag":"y"}\n';
+    const documents = await load(new JsonlLoader(), jsonl, { textFields: ['q'], payloadFields: ['tag'] });
+    assert.deepEqual(documents.map(doc => doc.metadata), [
+      { record: 0, line: 1, fields: { tag: 'x' } },
+      { record: 1, line: 3, fields: { tag: 'y' } },
+    ]);
+  });
+});
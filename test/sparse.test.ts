@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Bm25Encoder, tokenize } from '../src/services/sparse.js';
+
+const encoder = new Bm25Encoder();
+
+// Index of a single term, as hashed by the encoder
+const termIndex = (term: string) => encoder.encodeQuery(term).indices[0];
+
+// BM25 term frequency weight with the encoder's k1 = 1.2, b = 0.75 and average length of 200
+const bm25 = (tf: number, length: number) => (tf * 2.2) / (tf + 1.2 * (0.25 + 0.75 * length / 200));
+
+describe('tokenize', () => {
+  it('lowercases words and drops stop words', () => {
+    assert.deepEqual(tokenize('The Cache is NOT a Database!'), ['cache', 'database']);
+  });
+
+  it('keeps identifiers whole and adds their camelCase and snake_case parts', () => {
+    assert.deepEqual(tokenize('getUserById snake_case HTTPServer'), [
+      'getuserbyid', 'get', 'user', 'id',
+      'snake_case', 'snake', 'case',
+      'httpserver', 'http', 'server',
+    ]);
+  });
+
+  it('keeps letters of any script and numbers', () => {
+    assert.deepEqual(tokenize('Über café, 42 Tage'), ['über', 'café', '42', 'tage']);
+  });
+
+  it('returns nothing for text without words', () => {
+    assert.deepEqual(tokenize(' -- ... '), []);
+  });
+});
+
+describe('Bm25Encoder', () => {
+  it('weights document terms by saturated term frequency and length', () => {
+    const vector = encoder.encodeDocument('cache cache miss');
+    const weights = Object.fromEntries(vector.indices.map((index, i) => [index, vector.values[i]]));
+
+    assert.equal(vector.indices.length, 2);
+    assert.equal(weights[termIndex('cache')], bm25(2, 3));
+    assert.equal(weights[termIndex('miss')], bm25(1, 3));
+  });
+
+  it('weights a term less in a longer document', () => {
+    const short = encoder.encodeDocument('cache');
+    const long = encoder.encodeDocument(`cache ${'word '.repeat(400)}`);
+    const weight = (vector: { indices: number[]; values: number[] }) =>
+      vector.values[vector.indices.indexOf(termIndex('cache'))];
+
+    assert.ok(weight(long) < weight(short));
+  });
+
+  it('sorts indices and counts each distinct term once', () => {
+    const vector = encoder.encodeDocument('delta alpha charlie bravo alpha');
+    assert.deepEqual(vector.indices, [...vector.indices].sort((a, b) => a - b));
+    assert.equal(new Set(vector.indices).size, 4);
+  });
+
+  it('gives every distinct query term the same weight and the same index as in documents', () => {
+    const query = encoder.encodeQuery('cache miss cache');
+    assert.deepEqual(query.values, [1, 1]);
+    assert.deepEqual(query.indices, encoder.encodeDocument('miss cache').indices);
+  });
+
+  it('encodes text without terms as an empty vector', () => {
+    assert.deepEqual(encoder.encodeDocument('the and of'), { indices: [], values: [] });
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { IncomingMessage } from 'node:http';
+import { describe, it } from 'node:test';
+import { isAllowedRequest, isAuthorized } from '../src/services/transport.js';
+
+const request = (headers: Record<string, string>) => ({ headers } as unknown as IncomingMessage);
+
+describe('isAuthorized', () => {
+  it('accepts every request without tokens', () => {
+    assert.equal(isAuthorized(request({}), []), true);
+  });
+
+  it('accepts a bearer token or an API key', () => {
+    assert.equal(isAuthorized(request({ authorization: 'Bearer secret' }), ['other', 'secret']), true);
+    assert.equal(isAuthorized(request({ authorization: 'bearer secret' }), ['secret']), true);
+    assert.equal(isAuthorized(request({ 'x-api-key': 'secret' }), ['secret']), true);
+  });
+
+  it('refuses missing and wrong tokens', () => {
+    assert.equal(isAuthorized(request({}), ['secret']), false);
+    assert.equal(isAuthorized(request({ authorization: 'Bearer wrong' }), ['secret']), false);
+    assert.equal(isAuthorized(request({ authorization: 'Basic secret' }), ['secret']), false);
+    assert.equal(isAuthorized(request({ 'x-api-key': 'secre' }), ['secret']), false);
+  });
+});
+
+describe('isAllowedRequest', () => {
+  it('accepts loopback host names on a loopback interface', () => {
+    for (const host of ['localhost:3000', '127.0.0.1:3000', '[::1]:3000']) {
+      assert.equal(isAllowedRequest(request({ host }), '127.0.0.1', []), true, host);
+    }
+  });
+
+  it('refuses other host names, as DNS rebinding produces them', () => {
+    assert.equal(isAllowedRequest(request({ host: 'evil.example:3000' }), '127.0.0.1', []), false);
+    assert.equal(isAllowedRequest(request({}), '127.0.0.1', []), false);
+  });
+
+  it('accepts configured host names besides the interface', () => {
+    const allowed = ['mcp.example.com'];
+    assert.equal(isAllowedRequest(request({ host: 'mcp.example.com' }), '10.0.0.5', [], allowed), true);
+    assert.equal(isAllowedRequest(request({ host: '10.0.0.5:3000' }), '10.0.0.5', [], allowed), true);
+    assert.equal(isAllowedRequest(request({ host: 'evil.example' }), '10.0.0.5', [], allowed), false);
+  });
+
+  it('accepts any host name on every interface unless host names are configured', () => {
+    assert.equal(isAllowedRequest(request({ host: 'anything.example' }), '0.0.0.0', []), true);
+    assert.equal(isAllowedRequest(request({ host: 'anything.example' }), '0.0.0.0', [], ['mcp.example.com']), false);
+    assert.equal(isAllowedRequest(request({ host: 'mcp.example.com' }), '::', [], ['mcp.example.com']), true);
+  });
+
+  it('accepts same-site and listed origins only', () => {
+    const local = (origin: string, corsOrigins: string[] = []) =>
+      isAllowedRequest(request({ host: 'localhost:3000', origin }), '127.0.0.1', corsOrigins);
+
+    assert.equal(local('http://localhost:5173'), true);
+    assert.equal(local('https://evil.example'), false);
+    assert.equal(local('https://app.example.com', ['https://app.example.com']), true);
+    assert.equal(local('https://evil.example', ['*']), true);
+  });
+});